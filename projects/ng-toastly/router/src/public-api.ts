@@ -0,0 +1,16 @@
+/**
+ * Toastly Router - Angular router integration
+ *
+ * Public API Surface of `ng-toastly/router`
+ *
+ * Kept out of the primary entry point so that `@angular/router` is only
+ * needed by applications that use `withRouter()`.
+ */
+
+export type { ToastRouterOptions } from './toast-router.type';
+
+export { TOAST_ROUTER_OPTIONS } from './toast-router.type';
+
+export { withRouter } from './with-router';
+
+export { ToastRouterService } from './toast-router.service';
@@ -0,0 +1,127 @@
+/**
+ * Toast Router Service - Connects ToastService to the Angular router.
+ *
+ * Registered by `withRouter()`. This service:
+ * - Dismisses toasts marked `dismissOnNavigation` once a navigation completes
+ * - Shows toasts queued with `showAfterNavigation()` on the destination page
+ * - Applies per-route configuration overrides from route `data`, except `position`
+ *
+ * @example
+ * ```typescript
+ * // Route: { path: 'checkout', data: { toastly: { theme: 'dark' } } }
+ *
+ * this.toastRouter.showAfterNavigation({ message: 'Project created', type: 'success' });
+ * this.router.navigate(['/projects', project.id]);
+ * ```
+ */
+
+import { DestroyRef, inject, Injectable } from '@angular/core';
+import { ActivatedRouteSnapshot, NavigationEnd, NavigationStart, Router } from '@angular/router';
+import {
+  isToastError,
+  TOAST_ROUTE_DATA_KEY,
+  ToastGlobalConfigPartial,
+  ToastPayload,
+  ToastService,
+  ɵvalidateToastPayload as validateToastPayload,
+} from 'ng-toastly';
+import { TOAST_ROUTER_OPTIONS } from './toast-router.type';
+
+@Injectable()
+export class ToastRouterService {
+  private readonly router = inject(Router);
+  private readonly toastService = inject(ToastService);
+  private readonly routeDataKey =
+    inject(TOAST_ROUTER_OPTIONS, { optional: true })?.routeDataKey ?? TOAST_ROUTE_DATA_KEY;
+
+  /**
+   * Toasts waiting for the next completed navigation.
+   */
+  private pendingPayloads: ToastPayload[] = [];
+
+  /**
+   * Toasts marked `dismissOnNavigation` that were active when the current navigation started.
+   * Toasts shown during the navigation are kept.
+   */
+  private toastIdsToDismiss: readonly string[] = [];
+
+  constructor() {
+    const subscription = this.router.events.subscribe((event) => {
+      if (event instanceof NavigationStart) {
+        this.handleNavigationStart();
+      } else if (event instanceof NavigationEnd) {
+        this.handleNavigationEnd();
+      }
+    });
+
+    inject(DestroyRef).onDestroy(() => subscription.unsubscribe());
+  }
+
+  // ==========================================================================
+  // PUBLIC API
+  // ==========================================================================
+
+  /**
+   * Shows a toast once the next navigation completes, on the destination page.
+   * Cancelled or failed navigations keep the toast waiting for the next one.
+   *
+   * @param payload - Configuration for the toast
+   * @throws ToastError if validation fails
+   */
+  showAfterNavigation(payload: ToastPayload): void {
+    validateToastPayload(payload);
+    this.pendingPayloads = [...this.pendingPayloads, payload];
+  }
+
+  // ==========================================================================
+  // PRIVATE - Navigation Handling
+  // ==========================================================================
+
+  private handleNavigationStart(): void {
+    this.toastIdsToDismiss = this.toastService
+      .toasts()
+      .filter((toast) => toast.dismissOnNavigation)
+      .map((toast) => toast.id);
+  }
+
+  private handleNavigationEnd(): void {
+    // Apply the destination's defaults first so pending toasts use them
+    this.toastService.setConfigOverrides(this.collectRouteOverrides());
+
+    const toastIdsToDismiss = this.toastIdsToDismiss;
+    this.toastIdsToDismiss = [];
+    toastIdsToDismiss.forEach((toastId) => this.toastService.dismiss(toastId, 'navigation'));
+
+    const pendingPayloads = this.pendingPayloads;
+    this.pendingPayloads = [];
+    for (const payload of pendingPayloads) {
+      try {
+        this.toastService.show(payload);
+      } catch (error) {
+        // Rejected by the overflow strategy; the other pending toasts are still shown
+        if (!isToastError(error, 'MAXIMUM_TOASTS_EXCEEDED')) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Merges configuration overrides along the activated route, parents first.
+   * `position` is left out: containers without a position input follow the
+   * global position, so changing it would hide the toasts already on screen.
+   */
+  private collectRouteOverrides(): ToastGlobalConfigPartial {
+    let overrides: ToastGlobalConfigPartial = {};
+    let route: ActivatedRouteSnapshot | null = this.router.routerState.snapshot.root;
+
+    while (route) {
+      const routeOverrides: ToastGlobalConfigPartial | undefined = route.data[this.routeDataKey];
+      overrides = { ...overrides, ...routeOverrides };
+      route = route.firstChild;
+    }
+
+    const { position: _position, ...overridesWithoutPosition } = overrides;
+    return overridesWithoutPosition;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Toast Router Types - Options for the `withRouter()` feature.
+ */
+
+import { InjectionToken } from '@angular/core';
+
+/**
+ * Options for the `withRouter()` feature.
+ */
+export interface ToastRouterOptions {
+  /** Route `data` key holding per-route configuration overrides (default: 'toastly') */
+  readonly routeDataKey?: string;
+}
+
+/**
+ * Injection token for the `withRouter()` options.
+ */
+export const TOAST_ROUTER_OPTIONS = new InjectionToken<ToastRouterOptions>('TOAST_ROUTER_OPTIONS');
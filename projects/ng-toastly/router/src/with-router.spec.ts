@@ -0,0 +1,210 @@
+/**
+ * Tests for withRouter
+ *
+ * Verifies:
+ * - Dismissal of `dismissOnNavigation` toasts after navigation
+ * - Toasts queued with showAfterNavigation(), validated when queued
+ * - Per-route configuration overrides from route data
+ */
+
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter, Router } from '@angular/router';
+import {
+  provideToastly,
+  ToastContainerComponent,
+  ToastDismissReason,
+  ToastGlobalConfigPartial,
+  ToastService,
+} from 'ng-toastly';
+import { ToastRouterService } from './toast-router.service';
+import { withRouter } from './with-router';
+
+@Component({ template: '' })
+class PageComponent {}
+
+describe('withRouter', () => {
+  let router: Router;
+  let toastService: ToastService;
+  let toastRouter: ToastRouterService;
+
+  function setup(feature = withRouter(), config: ToastGlobalConfigPartial = {}): void {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([
+          { path: 'home', component: PageComponent },
+          {
+            path: 'checkout',
+            data: { toastly: { position: 'top-center', defaultDurationMs: 8000 } },
+            children: [
+              { path: 'payment', component: PageComponent, data: { toastly: { theme: 'dark' } } },
+            ],
+          },
+          { path: 'custom', component: PageComponent, data: { notifications: { theme: 'dark' } } },
+        ]),
+        provideToastly(config, feature),
+      ],
+    });
+
+    router = TestBed.inject(Router);
+    toastService = TestBed.inject(ToastService);
+    toastRouter = TestBed.inject(ToastRouterService);
+  }
+
+  afterEach(() => {
+    toastService.dismissAll();
+  });
+
+  // ==========================================================================
+  // Dismiss on Navigation Tests
+  // ==========================================================================
+
+  describe('dismissOnNavigation', () => {
+    beforeEach(() => setup());
+
+    it('should dismiss marked toasts with reason navigation', async () => {
+      const toastRef = toastService.info('Unsaved changes', { dismissOnNavigation: true });
+      const reasons: ToastDismissReason[] = [];
+      toastRef.afterDismissed().subscribe((reason) => reasons.push(reason));
+
+      await router.navigateByUrl('/home');
+
+      expect(reasons).toEqual(['navigation']);
+      expect(toastService.toasts().length).toBe(0);
+    });
+
+    it('should keep toasts that are not marked', async () => {
+      toastService.info('Saved');
+
+      await router.navigateByUrl('/home');
+
+      expect(toastService.toasts().length).toBe(1);
+    });
+
+    it('should keep marked toasts when the navigation is cancelled', async () => {
+      toastService.info('Unsaved changes', { dismissOnNavigation: true });
+
+      await router.navigateByUrl('/unknown').catch(() => undefined);
+
+      expect(toastService.toasts().length).toBe(1);
+    });
+  });
+
+  // ==========================================================================
+  // Show After Navigation Tests
+  // ==========================================================================
+
+  describe('showAfterNavigation()', () => {
+    beforeEach(() => setup());
+
+    it('should show the toast once the navigation completes', async () => {
+      toastRouter.showAfterNavigation({ message: 'Project created', type: 'success' });
+
+      expect(toastService.toasts().length).toBe(0);
+
+      await router.navigateByUrl('/home');
+
+      expect(toastService.toasts().map((toast) => toast.message)).toEqual(['Project created']);
+    });
+
+    it('should show the toast only once', async () => {
+      toastRouter.showAfterNavigation({ message: 'Project created' });
+
+      await router.navigateByUrl('/home');
+      await router.navigateByUrl('/checkout/payment');
+
+      expect(toastService.toasts().length).toBe(1);
+    });
+
+    it('should not dismiss a marked toast shown after the navigation', async () => {
+      toastRouter.showAfterNavigation({ message: 'Welcome', dismissOnNavigation: true });
+
+      await router.navigateByUrl('/home');
+
+      expect(toastService.toasts().length).toBe(1);
+    });
+
+    it('should reject invalid payloads right away', () => {
+      expect(() => toastRouter.showAfterNavigation({ message: 'Saved', durationMs: -1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_DURATION' })
+      );
+      expect(() =>
+        toastRouter.showAfterNavigation({ message: 'Upload', progressPercent: 150 })
+      ).toThrow(expect.objectContaining({ code: 'INVALID_PROGRESS_VALUE' }));
+    });
+
+    it('should keep showing pending toasts after one is rejected', async () => {
+      TestBed.resetTestingModule();
+      setup(withRouter(), { maximumVisibleToasts: 1, overflowStrategy: 'reject' });
+      toastRouter.showAfterNavigation({ message: 'First' });
+      toastRouter.showAfterNavigation({ message: 'Rejected' });
+      toastRouter.showAfterNavigation({ message: 'Elsewhere', position: 'top-left' });
+
+      await router.navigateByUrl('/home');
+
+      const messages = toastService.toasts().map((toast) => toast.message);
+      expect(messages).toEqual(expect.arrayContaining(['First', 'Elsewhere']));
+      expect(messages).not.toContain('Rejected');
+    });
+  });
+
+  // ==========================================================================
+  // Route Data Tests
+  // ==========================================================================
+
+  describe('route configuration overrides', () => {
+    it('should apply overrides from route data, parents first', async () => {
+      setup();
+
+      await router.navigateByUrl('/checkout/payment');
+      toastService.info('Card declined');
+
+      const toast = toastService.toasts()[0];
+      expect(toast.theme).toBe('dark');
+      expect(toast.durationMs).toBe(8000);
+    });
+
+    it('should restore the global configuration on other routes', async () => {
+      setup();
+
+      await router.navigateByUrl('/checkout/payment');
+      await router.navigateByUrl('/home');
+      toastService.info('Saved');
+
+      expect(toastService.toasts()[0].theme).toBe('light');
+    });
+
+    it('should use the destination overrides for toasts shown after navigation', async () => {
+      setup();
+      toastRouter.showAfterNavigation({ message: 'Order placed' });
+
+      await router.navigateByUrl('/checkout/payment');
+
+      expect(toastService.toasts()[0].durationMs).toBe(8000);
+    });
+
+    it('should ignore position overrides, so toasts on screen stay visible', async () => {
+      setup();
+      const fixture = TestBed.createComponent(ToastContainerComponent);
+      fixture.detectChanges();
+
+      await router.navigateByUrl('/home');
+      toastService.info('Saved', { durationMs: 0 });
+      await router.navigateByUrl('/checkout/payment');
+      toastService.info('Card declined', { durationMs: 0 });
+      fixture.detectChanges();
+
+      expect(toastService.position()).toBe('bottom-right');
+      expect(fixture.nativeElement.querySelectorAll('toastly-item').length).toBe(2);
+    });
+
+    it('should read overrides from a custom route data key', async () => {
+      setup(withRouter({ routeDataKey: 'notifications' }));
+
+      await router.navigateByUrl('/custom');
+      toastService.info('Saved');
+
+      expect(toastService.toasts()[0].theme).toBe('dark');
+    });
+  });
+});
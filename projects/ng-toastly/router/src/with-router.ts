@@ -0,0 +1,40 @@
+/**
+ * Router feature for `provideToastly()`.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * import { withRouter } from 'ng-toastly/router';
+ *
+ * export const appConfig = {
+ *   providers: [
+ *     provideRouter(routes),
+ *     provideToastly({ position: 'bottom-right' }, withRouter()),
+ *   ],
+ * };
+ * ```
+ */
+
+import { ENVIRONMENT_INITIALIZER, inject } from '@angular/core';
+import { ToastlyFeature } from 'ng-toastly';
+import { ToastRouterService } from './toast-router.service';
+import { TOAST_ROUTER_OPTIONS, ToastRouterOptions } from './toast-router.type';
+
+/**
+ * Enables router integration: `dismissOnNavigation`, `showAfterNavigation()`
+ * and per-route configuration overrides through route `data`.
+ *
+ * @param options - Router integration options
+ * @returns Feature to pass to `provideToastly()`
+ */
+export function withRouter(options: ToastRouterOptions = {}): ToastlyFeature<'router'> {
+  return {
+    kind: 'router',
+    providers: [
+      { provide: TOAST_ROUTER_OPTIONS, useValue: options },
+      ToastRouterService,
+      // Start listening before the initial navigation
+      { provide: ENVIRONMENT_INITIALIZER, multi: true, useValue: () => inject(ToastRouterService) },
+    ],
+  };
+}
@@ -6,6 +6,7 @@
  * - Direction detection from position
  * - Preset and custom animation handling
  * - Reduced motion detection
+ * - Stack reflow (FLIP) animation
  */
 
 import { TestBed } from '@angular/core/testing';
@@ -195,6 +196,62 @@ describe('AnimationService', () => {
         service.runLeaveAnimation(element, 'bottom-right', 'bounce')
       ).resolves.toBeUndefined();
     });
+
+    it('should hide the element when Web Animations are not supported', async () => {
+      const element = document.createElement('div');
+      Object.defineProperty(element, 'animate', { value: undefined });
+
+      await service.runLeaveAnimation(element, 'bottom-right', 'slide');
+
+      expect(element.style.opacity).toBe('0');
+    });
+  });
+
+  // ==========================================================================
+  // Move Animation Tests
+  // ==========================================================================
+
+  describe('runMoveAnimation', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    function createMovedElement(currentRect: Partial<DOMRect>): HTMLElement {
+      const element = document.createElement('div');
+      element.getBoundingClientRect = () => ({ left: 0, top: 0, ...currentRect }) as DOMRect;
+      element.animate = vi.fn().mockReturnValue({ finished: Promise.resolve() });
+      return element;
+    }
+
+    it('should play the element back from its previous position', async () => {
+      const element = createMovedElement({ left: 0, top: 80 });
+
+      await service.runMoveAnimation(element, { left: 0, top: 160 } as DOMRect);
+
+      expect(element.animate).toHaveBeenCalledWith(
+        [{ transform: 'translate(0px, 80px)' }, { transform: 'translate(0, 0)' }],
+        expect.objectContaining({ duration: 300, composite: 'add' })
+      );
+    });
+
+    it('should not animate an element that has not moved', async () => {
+      const element = createMovedElement({ left: 0, top: 80 });
+
+      await service.runMoveAnimation(element, { left: 0, top: 80 } as DOMRect);
+
+      expect(element.animate).not.toHaveBeenCalled();
+    });
+
+    it('should not animate when the user prefers reduced motion', async () => {
+      vi.stubGlobal('matchMedia', () => ({ matches: true }));
+      TestBed.resetTestingModule();
+      const reducedMotionService = TestBed.inject(AnimationService);
+      const element = createMovedElement({ left: 0, top: 80 });
+
+      await reducedMotionService.runMoveAnimation(element, { left: 0, top: 160 } as DOMRect);
+
+      expect(element.animate).not.toHaveBeenCalled();
+    });
   });
 
   // ==========================================================================
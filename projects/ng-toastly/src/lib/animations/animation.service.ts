@@ -2,18 +2,20 @@
  * Animation Service - Manages toast enter/leave animations.
  *
  * Features:
- * - Preset animations (slide, fade, bounce)
+ * - Preset animations (slide, fade, bounce and registered presets)
  * - Custom animation callbacks
+ * - Stack reflow when toasts enter or leave (FLIP)
  * - Respects prefers-reduced-motion
  * - CSS variable overrides
  */
 
-import { Injectable, signal } from '@angular/core';
+import { inject, Injectable, signal } from '@angular/core';
 import {
   AnimationPreset,
   AnimationDirection,
   CustomAnimation,
   AnimationPresetDefinition,
+  TOAST_ANIMATION_PRESETS,
 } from './animation.types';
 import {
   ANIMATION_DEFAULT_DURATION_MS,
@@ -28,15 +30,22 @@ import { bounceAnimation } from './presets/bounce.animation';
 import { ToastPosition } from '../types/toast.type';
 
 /**
- * Map of preset names to their definitions.
+ * Map of built-in preset names to their definitions.
  */
-const PRESET_MAP: Readonly<Record<AnimationPreset, AnimationPresetDefinition | null>> = {
+const BUILT_IN_PRESETS: Readonly<Record<string, AnimationPresetDefinition | null>> = {
   slide: slideAnimation,
   fade: fadeAnimation,
   bounce: bounceAnimation,
   none: null,
 };
 
+/**
+ * Whether the element can run Web Animations (not available in some server and test DOMs).
+ */
+function supportsWebAnimations(element: HTMLElement): boolean {
+  return typeof element.animate === 'function';
+}
+
 /**
  * Service for managing toast animations.
  */
@@ -44,6 +53,17 @@ const PRESET_MAP: Readonly<Record<AnimationPreset, AnimationPresetDefinition | n
   providedIn: 'root',
 })
 export class AnimationService {
+  /**
+   * Built-in presets and registered presets, keyed by name.
+   * Registered presets replace built-in ones of the same name.
+   */
+  private readonly presets = new Map<string, AnimationPresetDefinition | null>([
+    ...Object.entries(BUILT_IN_PRESETS),
+    ...(inject(TOAST_ANIMATION_PRESETS, { optional: true }) ?? []).flatMap(
+      (presets) => Object.entries(presets) as [string, AnimationPresetDefinition][]
+    ),
+  ]);
+
   /**
    * Whether the user prefers reduced motion.
    */
@@ -102,8 +122,8 @@ export class AnimationService {
       return;
     }
 
-    const presetDef = PRESET_MAP[effectivePreset];
-    if (!presetDef) {
+    const presetDef = this.presets.get(effectivePreset);
+    if (!presetDef || !supportsWebAnimations(element)) {
       element.style.opacity = '1';
       return;
     }
@@ -155,8 +175,8 @@ export class AnimationService {
       return;
     }
 
-    const presetDef = PRESET_MAP[effectivePreset];
-    if (!presetDef) {
+    const presetDef = this.presets.get(effectivePreset);
+    if (!presetDef || !supportsWebAnimations(element)) {
       element.style.opacity = '0';
       return;
     }
@@ -174,6 +194,49 @@ export class AnimationService {
     }
   }
 
+  /**
+   * Animates an element from where it was before a layout change to where it
+   * is now (FLIP: the new position is measured, the element is moved back
+   * with a transform, and the transform is played out).
+   * Skipped when the user prefers reduced motion.
+   *
+   * @param element - The element after the layout change
+   * @param previousRect - The element's bounding rectangle before the change
+   * @param durationMs - Override duration
+   * @param easing - Override easing
+   * @returns Promise that resolves when animation completes
+   */
+  async runMoveAnimation(
+    element: HTMLElement,
+    previousRect: DOMRect,
+    durationMs?: number,
+    easing?: string
+  ): Promise<void> {
+    if (this.prefersReducedMotion() || !supportsWebAnimations(element)) {
+      return;
+    }
+
+    const currentRect = element.getBoundingClientRect();
+    const deltaX = previousRect.left - currentRect.left;
+    const deltaY = previousRect.top - currentRect.top;
+
+    if (deltaX === 0 && deltaY === 0) {
+      return;
+    }
+
+    const animation = element.animate(
+      [{ transform: `translate(${deltaX}px, ${deltaY}px)` }, { transform: 'translate(0, 0)' }],
+      {
+        duration: durationMs ?? ANIMATION_DEFAULT_DURATION_MS,
+        easing: easing ?? ANIMATION_DEFAULT_EASING,
+        // Adds to enter and leave animations still running on the element
+        composite: 'add',
+      }
+    );
+
+    await animation.finished;
+  }
+
   /**
    * Checks if animations are currently disabled.
    */
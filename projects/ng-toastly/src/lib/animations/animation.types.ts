@@ -4,15 +4,38 @@
  * Provides type-safe animation configuration options.
  */
 
+import { InjectionToken } from '@angular/core';
+
 /**
- * Available animation preset names.
+ * Registry of animation preset names.
+ *
+ * Presets registered with `provideToastlyAnimations()` or `withAnimationPreset()`
+ * become type-safe once their name is added here through declaration merging.
  *
- * - `slide`: Slides in from the edge, slides out to the edge
- * - `fade`: Simple opacity fade in/out
- * - `bounce`: Enters with a subtle bounce effect
- * - `none`: No animation (instant show/hide)
+ * @example
+ * ```typescript
+ * declare module 'ng-toastly' {
+ *   interface ToastlyAnimationPresets {
+ *     zoom: true;
+ *   }
+ * }
+ * ```
+ */
+export interface ToastlyAnimationPresets {
+  /** Slides in from the edge, slides out to the edge */
+  readonly slide: true;
+  /** Simple opacity fade in/out */
+  readonly fade: true;
+  /** Enters with a subtle bounce effect */
+  readonly bounce: true;
+  /** No animation (instant show/hide) */
+  readonly none: true;
+}
+
+/**
+ * Available animation preset names: the built-in ones and the registered ones.
  */
-export type AnimationPreset = 'slide' | 'fade' | 'bounce' | 'none';
+export type AnimationPreset = keyof ToastlyAnimationPresets;
 
 /**
  * Animation direction based on toast position.
@@ -94,3 +117,18 @@ export interface AnimationPresetDefinition {
   /** Leave animation runner */
   readonly leave: AnimationRunner;
 }
+
+/**
+ * Animation presets to register, keyed by name.
+ */
+export type AnimationPresetDefinitions = Readonly<
+  Partial<Record<AnimationPreset, AnimationPresetDefinition>>
+>;
+
+/**
+ * Injection token for registered animation presets (multi provider).
+ * Use `provideToastlyAnimations()` or `withAnimationPreset()` to provide it.
+ */
+export const TOAST_ANIMATION_PRESETS = new InjectionToken<readonly AnimationPresetDefinitions[]>(
+  'TOAST_ANIMATION_PRESETS'
+);
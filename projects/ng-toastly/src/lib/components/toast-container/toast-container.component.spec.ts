@@ -4,32 +4,50 @@
  * Verifies:
  * - Component creation and positioning
  * - Toast filtering by position
+ * - Grouped rendering
  * - Host classes and styles computation
  * - ARIA accessibility attributes
  * - Mouse event delegation
+ * - Leave animations of dismissed toasts
+ * - Stack reflow animation
  */
 
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 import { Component, signal } from '@angular/core';
 import { ToastContainerComponent } from './toast-container.component';
 import { ToastService } from '../../services/toast.service';
-import { Toast, ToastPosition } from '../../types/toast.type';
+import { AnimationService } from '../../animations/animation.service';
+import { Toast, ToastPosition, ToastTimerState } from '../../types/toast.type';
 
 // Mock ToastService
 class MockToastService {
-  private _visibleToasts = signal<readonly Toast[]>([]);
+  private _renderedToasts = signal<readonly Toast[]>([]);
+  private _exitingToastIds = signal<ReadonlySet<string>>(new Set());
   private _position = signal<ToastPosition>('bottom-right');
   private _pauseOnHover = signal(true);
+  private _timerStates = signal<Record<string, ToastTimerState>>({});
 
-  visibleToasts = this._visibleToasts.asReadonly();
+  renderedToasts = this._renderedToasts.asReadonly();
+  exitingToastIds = this._exitingToastIds.asReadonly();
   position = this._position.asReadonly();
   pauseOnHover = this._pauseOnHover.asReadonly();
+  timerStates = this._timerStates.asReadonly();
+  animationPreset = signal('none' as const).asReadonly();
+  customAnimation = signal(undefined).asReadonly();
 
   pauseTimer = vi.fn();
   resumeTimer = vi.fn();
+  setVisibleLimit = vi.fn();
+  unregisterContainer = vi.fn();
+  registerContainer = vi.fn(() => this.unregisterContainer);
+  completeExit = vi.fn();
 
   setVisibleToasts(toasts: Toast[]): void {
-    this._visibleToasts.set(toasts);
+    this._renderedToasts.set(toasts);
+  }
+
+  setExitingToastIds(toastIds: string[]): void {
+    this._exitingToastIds.set(new Set(toastIds));
   }
 
   setPosition(position: ToastPosition): void {
@@ -54,12 +72,24 @@ function createMockToast(id: string, position: ToastPosition = 'bottom-right'):
 
 // Test host component
 @Component({
-  template: `<toastly-container [position]="position()" [styleClass]="styleClass()" />`,
+  template: `
+    @if (showContainer()) {
+      <toastly-container
+        [position]="position()"
+        [styleClass]="styleClass()"
+        [maxVisible]="maxVisible()"
+        [grouped]="grouped()"
+      />
+    }
+  `,
   imports: [ToastContainerComponent],
 })
 class TestHostComponent {
   position = signal<ToastPosition | undefined>(undefined);
   styleClass = signal('');
+  maxVisible = signal<number | undefined>(undefined);
+  grouped = signal(false);
+  showContainer = signal(true);
 }
 
 describe('ToastContainerComponent', () => {
@@ -275,6 +305,88 @@ describe('ToastContainerComponent', () => {
     });
   });
 
+  // ==========================================================================
+  // Visibility Limit Tests
+  // ==========================================================================
+
+  describe('maxVisible', () => {
+    it('should not register a limit when maxVisible is not set', () => {
+      expect(mockToastService.setVisibleLimit).not.toHaveBeenCalled();
+    });
+
+    it('should register the limit for the resolved position', () => {
+      hostComponent.maxVisible.set(2);
+      fixture.detectChanges();
+
+      expect(mockToastService.setVisibleLimit).toHaveBeenCalledWith('bottom-right', 2);
+    });
+
+    it('should move the limit when the position changes', () => {
+      hostComponent.maxVisible.set(2);
+      fixture.detectChanges();
+      mockToastService.setVisibleLimit.mockClear();
+
+      hostComponent.position.set('top-center');
+      fixture.detectChanges();
+
+      expect(mockToastService.setVisibleLimit).toHaveBeenCalledWith('bottom-right', undefined);
+      expect(mockToastService.setVisibleLimit).toHaveBeenCalledWith('top-center', 2);
+    });
+
+    it('should reset the limit when the container is destroyed', () => {
+      hostComponent.maxVisible.set(3);
+      fixture.detectChanges();
+      mockToastService.setVisibleLimit.mockClear();
+
+      hostComponent.showContainer.set(false);
+      fixture.detectChanges();
+
+      expect(mockToastService.setVisibleLimit).toHaveBeenCalledWith('bottom-right', undefined);
+    });
+  });
+
+  // ==========================================================================
+  // Grouped Rendering Tests
+  // ==========================================================================
+
+  describe('grouped rendering', () => {
+    const uploadToast1: Toast = { ...createMockToast('toast-1'), group: 'upload' };
+    const otherToast: Toast = createMockToast('toast-2');
+    const uploadToast2: Toast = { ...createMockToast('toast-3'), group: 'upload' };
+
+    it('should not wrap toasts in groups by default', () => {
+      mockToastService.setVisibleToasts([uploadToast1, otherToast, uploadToast2]);
+      fixture.detectChanges();
+
+      const groups = fixture.nativeElement.querySelectorAll('.toastly-container__group');
+      expect(groups.length).toBe(0);
+      expect(fixture.nativeElement.querySelectorAll('toastly-item').length).toBe(3);
+    });
+
+    it('should render toasts of the same group together', () => {
+      hostComponent.grouped.set(true);
+      mockToastService.setVisibleToasts([uploadToast1, otherToast, uploadToast2]);
+      fixture.detectChanges();
+
+      const container = fixture.nativeElement.querySelector('toastly-container');
+      const children = Array.from(container.children) as HTMLElement[];
+      expect(children.length).toBe(2);
+      expect(children[0].classList).toContain('toastly-container__group');
+      expect(children[0].querySelectorAll('toastly-item').length).toBe(2);
+      expect(children[1].tagName.toLowerCase()).toBe('toastly-item');
+    });
+
+    it('should label each group for assistive technology', () => {
+      hostComponent.grouped.set(true);
+      mockToastService.setVisibleToasts([uploadToast1]);
+      fixture.detectChanges();
+
+      const group = fixture.nativeElement.querySelector('.toastly-container__group');
+      expect(group.getAttribute('role')).toBe('group');
+      expect(group.getAttribute('aria-label')).toBe('upload');
+    });
+  });
+
   // ==========================================================================
   // Mouse Event Delegation Tests
   // ==========================================================================
@@ -302,4 +414,69 @@ describe('ToastContainerComponent', () => {
       expect(mockToastService.resumeTimer).toHaveBeenCalledWith('toast-1');
     });
   });
+
+  // ==========================================================================
+  // Leave Animation Tests
+  // ==========================================================================
+
+  describe('leave animations', () => {
+    it('should register itself for its position', () => {
+      expect(mockToastService.registerContainer).toHaveBeenCalledWith('bottom-right');
+    });
+
+    it('should move its registration when the position changes', () => {
+      hostComponent.position.set('top-left');
+      fixture.detectChanges();
+
+      expect(mockToastService.unregisterContainer).toHaveBeenCalledTimes(1);
+      expect(mockToastService.registerContainer).toHaveBeenCalledWith('top-left');
+    });
+
+    it('should unregister itself when destroyed', () => {
+      hostComponent.showContainer.set(false);
+      fixture.detectChanges();
+
+      expect(mockToastService.unregisterContainer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should mark dismissed toasts as exiting', () => {
+      mockToastService.setVisibleToasts([createMockToast('toast-1'), createMockToast('toast-2')]);
+      mockToastService.setExitingToastIds(['toast-2']);
+      fixture.detectChanges();
+
+      const toastItems = fixture.nativeElement.querySelectorAll('toastly-item');
+      expect(toastItems[0].classList.contains('toastly-item--exiting')).toBe(false);
+      expect(toastItems[1].classList.contains('toastly-item--exiting')).toBe(true);
+    });
+  });
+
+  // ==========================================================================
+  // Reflow Animation Tests
+  // ==========================================================================
+
+  describe('reflow animation', () => {
+    it('should move the remaining toasts from where they were', () => {
+      const runMoveAnimation = vi.spyOn(TestBed.inject(AnimationService), 'runMoveAnimation');
+      mockToastService.setVisibleToasts([createMockToast('toast-1'), createMockToast('toast-2')]);
+      fixture.detectChanges();
+      const remainingItem = fixture.nativeElement.querySelectorAll('toastly-item')[1];
+      const previousRect = { left: 0, top: 80 } as DOMRect;
+      remainingItem.getBoundingClientRect = () => previousRect;
+
+      mockToastService.setVisibleToasts([createMockToast('toast-2')]);
+      fixture.detectChanges();
+
+      expect(runMoveAnimation).toHaveBeenCalledTimes(1);
+      expect(runMoveAnimation).toHaveBeenCalledWith(remainingItem, previousRect);
+    });
+
+    it('should leave new toasts to their enter animation', () => {
+      const runMoveAnimation = vi.spyOn(TestBed.inject(AnimationService), 'runMoveAnimation');
+
+      mockToastService.setVisibleToasts([createMockToast('toast-1')]);
+      fixture.detectChanges();
+
+      expect(runMoveAnimation).not.toHaveBeenCalled();
+    });
+  });
 });
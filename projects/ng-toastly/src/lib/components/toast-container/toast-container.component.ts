@@ -2,19 +2,32 @@
  * Toast Container Component - Manages the toast stack and positioning.
  *
  * This component:
- * - Renders all visible toasts from ToastService
+ * - Renders all visible toasts from ToastService, and dismissed ones until
+ *   their leave animation has finished
  * - Positions the toast stack based on configuration
+ * - Optionally limits how many toasts are visible in its position
+ * - Optionally renders toasts of the same group together
+ * - Animates the remaining toasts into place when the stack changes
  * - Provides ARIA live region for screen readers
  * - Handles hover-to-pause functionality
  */
 
+import { isPlatformBrowser } from '@angular/common';
 import {
+  afterNextRender,
   ChangeDetectionStrategy,
   Component,
   computed,
+  effect,
+  ElementRef,
   inject,
+  Injector,
   input,
+  PLATFORM_ID,
+  untracked,
+  viewChildren,
 } from '@angular/core';
+import { AnimationService } from '../../animations/animation.service';
 import {
   TOAST_CONTAINER_Z_INDEX,
   TOAST_SCREEN_OFFSET_PX,
@@ -23,9 +36,19 @@ import {
   TOAST_CONTAINER_ROLE,
 } from '../../constants/toast.constants';
 import { ToastService } from '../../services/toast.service';
-import { ToastPosition } from '../../types/toast.type';
+import { Toast, ToastPosition } from '../../types/toast.type';
 import { ToastItemComponent } from '../toast-item/toast-item.component';
 
+/**
+ * A run of toasts rendered together by the container.
+ * Ungrouped toasts get a section of their own.
+ */
+interface ToastSection {
+  readonly key: string;
+  readonly group: string | undefined;
+  readonly toasts: readonly Toast[];
+}
+
 @Component({
   selector: 'toastly-container',
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -37,12 +60,28 @@ import { ToastItemComponent } from '../toast-item/toast-item.component';
     '[attr.aria-label]': '"Notifications"',
   },
   template: `
-    @for (toast of filteredToasts(); track toast.id) {
-      <toastly-item
-        [toast]="toast"
-        (mouseenter)="handleMouseEnter(toast.id)"
-        (mouseleave)="handleMouseLeave(toast.id)"
-      />
+    @for (section of sections(); track section.key) {
+      @if (section.group !== undefined) {
+        <div class="toastly-container__group" role="group" [attr.aria-label]="section.group">
+          @for (toast of section.toasts; track toast.id) {
+            <toastly-item
+              [toast]="toast"
+              [exiting]="toastService.exitingToastIds().has(toast.id)"
+              (mouseenter)="handleMouseEnter(toast.id)"
+              (mouseleave)="handleMouseLeave(toast.id)"
+            />
+          }
+        </div>
+      } @else {
+        @for (toast of section.toasts; track toast.id) {
+          <toastly-item
+            [toast]="toast"
+            [exiting]="toastService.exitingToastIds().has(toast.id)"
+            (mouseenter)="handleMouseEnter(toast.id)"
+            (mouseleave)="handleMouseLeave(toast.id)"
+          />
+        }
+      }
     }
   `,
   styles: `
@@ -59,6 +98,13 @@ import { ToastItemComponent } from '../toast-item/toast-item.component';
       pointer-events: auto;
     }
 
+    .toastly-container__group {
+      display: flex;
+      flex-direction: inherit;
+      align-items: inherit;
+      gap: inherit;
+    }
+
     /* Position: top-right */
     :host(.toastly-container--top-right) {
       top: 0;
@@ -110,6 +156,14 @@ import { ToastItemComponent } from '../toast-item/toast-item.component';
 })
 export class ToastContainerComponent {
   protected readonly toastService = inject(ToastService);
+  private readonly animationService = inject(AnimationService);
+  private readonly injector = inject(Injector);
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+
+  /**
+   * Host elements of the rendered toast items.
+   */
+  private readonly itemElements = viewChildren(ToastItemComponent, { read: ElementRef });
 
   /**
    * Optional position override.
@@ -122,6 +176,17 @@ export class ToastContainerComponent {
    */
   readonly styleClass = input<string>('');
 
+  /**
+   * Optional maximum number of visible toasts for this container's position.
+   * If not provided, uses `maximumVisibleToasts` from the global configuration.
+   */
+  readonly maxVisible = input<number | undefined>(undefined);
+
+  /**
+   * Whether toasts sharing a `group` are rendered together in one block.
+   */
+  readonly grouped = input<boolean>(false);
+
   /**
    * ARIA constants for accessibility.
    */
@@ -140,11 +205,40 @@ export class ToastContainerComponent {
    */
   readonly filteredToasts = computed(() => {
     const containerPosition = this.resolvedPosition();
-    return this.toastService.visibleToasts().filter(
+    return this.toastService.renderedToasts().filter(
       (toast) => toast.position === containerPosition
     );
   });
 
+  /**
+   * Toasts split into render sections.
+   * In grouped mode, a group's toasts are collected where the first one appears.
+   */
+  readonly sections = computed((): readonly ToastSection[] => {
+    const grouped = this.grouped();
+    const sections: ToastSection[] = [];
+    const groupSections = new Map<string, Toast[]>();
+
+    for (const toast of this.filteredToasts()) {
+      if (!grouped || toast.group === undefined) {
+        sections.push({ key: toast.id, group: undefined, toasts: [toast] });
+        continue;
+      }
+
+      const groupToasts = groupSections.get(toast.group);
+      if (groupToasts) {
+        groupToasts.push(toast);
+        continue;
+      }
+
+      const newGroupToasts = [toast];
+      groupSections.set(toast.group, newGroupToasts);
+      sections.push({ key: `group:${toast.group}`, group: toast.group, toasts: newGroupToasts });
+    }
+
+    return sections;
+  });
+
   /**
    * Computed CSS classes for the host element.
    */
@@ -173,6 +267,39 @@ export class ToastContainerComponent {
     return `z-index: ${zIndex}; padding: ${offset}px; gap: ${gap}px;`;
   });
 
+  constructor() {
+    // Register this container's limit for its position while it is rendered
+    effect((onCleanup) => {
+      const position = this.resolvedPosition();
+      const maxVisible = this.maxVisible();
+
+      if (maxVisible === undefined) {
+        return;
+      }
+
+      untracked(() => this.toastService.setVisibleLimit(position, maxVisible));
+      onCleanup(() => this.toastService.setVisibleLimit(position, undefined));
+    });
+
+    // Keep dismissed toasts for their leave animation (never played on the server)
+    effect((onCleanup) => {
+      const position = this.resolvedPosition();
+
+      if (this.isBrowser) {
+        onCleanup(untracked(() => this.toastService.registerContainer(position)));
+      }
+    });
+
+    // Runs before the stack is re-rendered, so the items still show the old layout
+    effect(() => {
+      this.sections();
+
+      if (this.isBrowser) {
+        untracked(() => this.animateReflow());
+      }
+    });
+  }
+
   /**
    * Handles mouse enter on a toast item.
    * Pauses the auto-dismiss timer.
@@ -188,4 +315,34 @@ export class ToastContainerComponent {
   handleMouseLeave(toastId: string): void {
     this.toastService.resumeTimer(toastId);
   }
+
+  /**
+   * Measures the items before the stack changes, then moves the ones that
+   * changed place from their old position to the new one (FLIP).
+   * New items are left to their enter animation.
+   */
+  private animateReflow(): void {
+    const previousRects = new Map<HTMLElement, DOMRect>(
+      this.itemElements().map(({ nativeElement }) => [
+        nativeElement,
+        nativeElement.getBoundingClientRect(),
+      ])
+    );
+
+    if (previousRects.size === 0) {
+      return;
+    }
+
+    afterNextRender(
+      () => {
+        for (const { nativeElement } of this.itemElements()) {
+          const previousRect = previousRects.get(nativeElement);
+          if (previousRect) {
+            void this.animationService.runMoveAnimation(nativeElement, previousRect);
+          }
+        }
+      },
+      { injector: this.injector }
+    );
+  }
 }
@@ -8,35 +8,87 @@
  * - Dismiss button functionality
  * - ARIA accessibility attributes
  * - Action buttons behavior
+ * - Custom content templates and components
+ * - Message formats (text, HTML, Markdown)
+ * - Enter and leave animations
+ * - Swipe to dismiss
  */
 
 import { ComponentFixture, TestBed } from '@angular/core/testing';
-import { Component, signal } from '@angular/core';
+import { Component, inject, input, signal, TemplateRef, viewChild } from '@angular/core';
 import { ToastItemComponent } from './toast-item.component';
 import { ToastService } from '../../services/toast.service';
-import { Toast, ToastAction } from '../../types/toast.type';
+import { Toast, ToastAction, ToastTimerState } from '../../types/toast.type';
+import { CustomAnimation } from '../../animations/animation.types';
+import { TOAST_COMPONENT_CONTEXT, ToastContentContext } from '../../types/toast-content.type';
 
 // Mock ToastService
 class MockToastService {
   private _pauseOnHover = signal(true);
   pauseOnHover = this._pauseOnHover.asReadonly();
+  private _timerStates = signal<Record<string, ToastTimerState>>({});
+  timerStates = this._timerStates.asReadonly();
+  animationPreset = signal('none' as const).asReadonly();
+  private _customAnimation = signal<CustomAnimation | undefined>(undefined);
+  customAnimation = this._customAnimation.asReadonly();
 
   dismiss = vi.fn();
+  handleAction = vi.fn();
   pauseTimer = vi.fn();
   resumeTimer = vi.fn();
+  completeExit = vi.fn();
 
   setPauseOnHover(value: boolean): void {
     this._pauseOnHover.set(value);
   }
+
+  setTimerState(toastId: string, timerState: ToastTimerState): void {
+    this._timerStates.set({ [toastId]: timerState });
+  }
+
+  setCustomAnimation(animation: CustomAnimation | undefined): void {
+    this._customAnimation.set(animation);
+  }
 }
 
 // Test host component to provide required inputs
 @Component({
-  template: `<toastly-item [toast]="toast()" />`,
+  template: `<toastly-item [toast]="toast()" [exiting]="exiting()" />`,
   imports: [ToastItemComponent],
 })
 class TestHostComponent {
   toast = signal<Toast>(createMockToast());
+  exiting = signal(false);
+}
+
+// Component rendered as custom toast content
+@Component({
+  selector: 'test-invite-content',
+  template: `
+    <span class="invite-name">{{ inviter() }}</span>
+    <span class="invite-toast-id">{{ context.toast().id }}</span>
+    <button type="button" class="invite-accept" (click)="context.dismiss('action')">Accept</button>
+  `,
+})
+class InviteContentComponent {
+  readonly inviter = input('');
+  readonly context = inject(TOAST_COMPONENT_CONTEXT);
+}
+
+// Test host exposing a content template
+@Component({
+  template: `
+    <ng-template #content let-toast let-dismiss="dismiss">
+      <span class="template-message">{{ toast.message }}</span>
+      <button type="button" class="template-dismiss" (click)="dismiss()">Close</button>
+    </ng-template>
+    <toastly-item [toast]="toast()" />
+  `,
+  imports: [ToastItemComponent],
+})
+class TemplateHostComponent {
+  readonly content = viewChild.required<TemplateRef<ToastContentContext>>('content');
+  toast = signal<Toast>(createMockToast());
 }
 
 function createMockToast(overrides: Partial<Toast> = {}): Toast {
@@ -179,6 +231,38 @@ describe('ToastItemComponent', () => {
     });
   });
 
+  // ==========================================================================
+  // Loading State Tests
+  // ==========================================================================
+
+  describe('loading state', () => {
+    it('should render a spinner instead of the type icon', () => {
+      hostComponent.toast.set(createMockToast({ type: 'loading' }));
+      fixture.detectChanges();
+
+      const nativeElement = fixture.nativeElement as HTMLElement;
+      expect(nativeElement.querySelector('.toastly-item__spinner')).not.toBeNull();
+      expect(nativeElement.querySelector('.toastly-item__icon svg')).toBeNull();
+    });
+
+    it('should mark the toast as busy with status role', () => {
+      hostComponent.toast.set(createMockToast({ type: 'loading' }));
+      fixture.detectChanges();
+
+      const toastItem = fixture.nativeElement.querySelector('toastly-item');
+      expect(toastItem.getAttribute('aria-busy')).toBe('true');
+      expect(toastItem.getAttribute('role')).toBe('status');
+    });
+
+    it('should not mark settled toasts as busy', () => {
+      hostComponent.toast.set(createMockToast({ type: 'success' }));
+      fixture.detectChanges();
+
+      const toastItem = fixture.nativeElement.querySelector('toastly-item');
+      expect(toastItem.hasAttribute('aria-busy')).toBe(false);
+    });
+  });
+
   // ==========================================================================
   // Dismiss Button Tests
   // ==========================================================================
@@ -204,7 +288,216 @@ describe('ToastItemComponent', () => {
       const closeButton = fixture.nativeElement.querySelector('.toastly-item__close');
       closeButton?.click();
 
-      expect(mockToastService.dismiss).toHaveBeenCalledWith('test-toast-1');
+      expect(mockToastService.dismiss).toHaveBeenCalledWith('test-toast-1', 'user-close');
+    });
+  });
+
+  // ==========================================================================
+  // Animation Tests
+  // ==========================================================================
+
+  describe('animations', () => {
+    it('should run the custom enter animation on the host element', () => {
+      const enter = vi.fn();
+      mockToastService.setCustomAnimation({ enter, leave: vi.fn() });
+
+      const itemFixture = TestBed.createComponent(TestHostComponent);
+      itemFixture.detectChanges();
+
+      const toastItem = itemFixture.nativeElement.querySelector('toastly-item');
+      expect(enter).toHaveBeenCalledWith(toastItem);
+    });
+
+    it('should prefer the animation of the toast over the global one', () => {
+      const globalEnter = vi.fn();
+      const toastEnter = vi.fn();
+      mockToastService.setCustomAnimation({ enter: globalEnter, leave: vi.fn() });
+
+      const itemFixture = TestBed.createComponent(TestHostComponent);
+      itemFixture.componentInstance.toast.set(
+        createMockToast({ animation: { custom: { enter: toastEnter, leave: vi.fn() } } })
+      );
+      itemFixture.detectChanges();
+
+      expect(toastEnter).toHaveBeenCalledTimes(1);
+      expect(globalEnter).not.toHaveBeenCalled();
+    });
+
+    it('should let a preset of the toast win over global custom callbacks', () => {
+      const globalEnter = vi.fn();
+      mockToastService.setCustomAnimation({ enter: globalEnter, leave: vi.fn() });
+
+      const itemFixture = TestBed.createComponent(TestHostComponent);
+      itemFixture.componentInstance.toast.set(createMockToast({ animation: { preset: 'fade' } }));
+      itemFixture.detectChanges();
+
+      expect(globalEnter).not.toHaveBeenCalled();
+    });
+
+    it('should expose the animation duration and easing as CSS variables', () => {
+      hostComponent.toast.set(
+        createMockToast({ animation: { durationMs: 450, easing: 'ease-in' } })
+      );
+      fixture.detectChanges();
+
+      const toastItem: HTMLElement = fixture.nativeElement.querySelector('toastly-item');
+      expect(toastItem.style.getPropertyValue('--toastly-animation-duration')).toBe('450ms');
+      expect(toastItem.style.getPropertyValue('--toastly-animation-easing')).toBe('ease-in');
+    });
+
+    it('should mark the toast as exiting', () => {
+      hostComponent.exiting.set(true);
+      fixture.detectChanges();
+
+      const toastItem = fixture.nativeElement.querySelector('toastly-item');
+      expect(toastItem.classList.contains('toastly-item--exiting')).toBe(true);
+    });
+
+    it('should complete the exit after the leave animation', async () => {
+      let finishLeave: () => void = () => undefined;
+      const leave = vi.fn(() => new Promise<void>((resolve) => (finishLeave = resolve)));
+      mockToastService.setCustomAnimation({ enter: vi.fn(), leave });
+
+      hostComponent.exiting.set(true);
+      fixture.detectChanges();
+      await Promise.resolve();
+
+      const toastItem = fixture.nativeElement.querySelector('toastly-item');
+      expect(leave).toHaveBeenCalledWith(toastItem);
+      expect(mockToastService.completeExit).not.toHaveBeenCalled();
+
+      finishLeave();
+
+      await vi.waitFor(() => {
+        expect(mockToastService.completeExit).toHaveBeenCalledWith('test-toast-1');
+      });
+    });
+
+    it('should complete the exit when destroyed during the leave animation', () => {
+      mockToastService.setCustomAnimation({ enter: vi.fn(), leave: () => new Promise(() => {}) });
+      hostComponent.exiting.set(true);
+      fixture.detectChanges();
+
+      fixture.destroy();
+
+      expect(mockToastService.completeExit).toHaveBeenCalledWith('test-toast-1');
+    });
+  });
+
+  // ==========================================================================
+  // Swipe to Dismiss Tests
+  // ==========================================================================
+
+  describe('swipe to dismiss', () => {
+    let toastItem: HTMLElement;
+
+    function pointer(type: string, clientX: number, clientY = 0): void {
+      toastItem.dispatchEvent(
+        new PointerEvent(type, {
+          pointerId: 1,
+          pointerType: 'touch',
+          isPrimary: true,
+          button: 0,
+          clientX,
+          clientY,
+          bubbles: true,
+        })
+      );
+      fixture.detectChanges();
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      hostComponent.toast.set(createMockToast({ swipeToDismiss: true }));
+      fixture.detectChanges();
+      toastItem = fixture.nativeElement.querySelector('toastly-item');
+      toastItem.setPointerCapture = vi.fn();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should dismiss the toast when dragged far enough towards its edge', () => {
+      pointer('pointerdown', 0);
+      pointer('pointermove', 40);
+      vi.advanceTimersByTime(1000);
+      pointer('pointermove', 120);
+      pointer('pointerup', 120);
+
+      expect(mockToastService.dismiss).toHaveBeenCalledWith('test-toast-1', 'swipe');
+    });
+
+    it('should dismiss the toast when flicked towards its edge', () => {
+      pointer('pointerdown', 0);
+      vi.advanceTimersByTime(50);
+      pointer('pointermove', 40);
+      pointer('pointerup', 40);
+
+      expect(mockToastService.dismiss).toHaveBeenCalledWith('test-toast-1', 'swipe');
+    });
+
+    it('should follow the pointer and pause the timer while dragging', () => {
+      pointer('pointerdown', 0);
+      pointer('pointermove', 30);
+
+      expect(toastItem.style.translate).toBe('30px 0px');
+      expect(toastItem.classList.contains('toastly-item--swiping')).toBe(true);
+      expect(mockToastService.pauseTimer).toHaveBeenCalledWith('test-toast-1');
+    });
+
+    it('should snap back and resume the timer after a short, slow drag', () => {
+      pointer('pointerdown', 0);
+      pointer('pointermove', 30);
+      vi.advanceTimersByTime(1000);
+      pointer('pointerup', 30);
+
+      expect(mockToastService.dismiss).not.toHaveBeenCalled();
+      expect(toastItem.style.translate).toBe('');
+      expect(mockToastService.resumeTimer).toHaveBeenCalledWith('test-toast-1');
+    });
+
+    it('should resist drags away from the edge', () => {
+      pointer('pointerdown', 0);
+      pointer('pointermove', -100);
+
+      expect(toastItem.style.translate).toBe('-20px 0px');
+    });
+
+    it('should swipe vertically for centered positions', () => {
+      hostComponent.toast.set(createMockToast({ swipeToDismiss: true, position: 'top-center' }));
+      fixture.detectChanges();
+
+      pointer('pointerdown', 0, 0);
+      pointer('pointermove', 0, -30);
+
+      expect(toastItem.style.translate).toBe('0px -30px');
+    });
+
+    it('should ignore small movements so that clicks still work', () => {
+      pointer('pointerdown', 0);
+      pointer('pointermove', 4);
+      pointer('pointerup', 4);
+
+      expect(mockToastService.pauseTimer).not.toHaveBeenCalled();
+      expect(mockToastService.dismiss).not.toHaveBeenCalled();
+    });
+
+    it('should not swipe when swipeToDismiss is off or the toast is not dismissible', () => {
+      for (const toast of [
+        createMockToast({ swipeToDismiss: false }),
+        createMockToast({ swipeToDismiss: true, dismissible: false }),
+      ]) {
+        hostComponent.toast.set(toast);
+        fixture.detectChanges();
+
+        pointer('pointerdown', 0);
+        pointer('pointermove', 120);
+        pointer('pointerup', 120);
+      }
+
+      expect(mockToastService.dismiss).not.toHaveBeenCalled();
+      expect(toastItem.style.translate).toBe('');
     });
   });
 
@@ -250,6 +543,17 @@ describe('ToastItemComponent', () => {
 
       expect(mockToastService.resumeTimer).not.toHaveBeenCalled();
     });
+
+    it('should always pause critical toasts on mouseenter', () => {
+      mockToastService.setPauseOnHover(false);
+      hostComponent.toast.set(createMockToast({ priority: 'critical' }));
+      fixture.detectChanges();
+
+      const toastItem = fixture.nativeElement.querySelector('toastly-item');
+      toastItem.dispatchEvent(new MouseEvent('mouseenter'));
+
+      expect(mockToastService.pauseTimer).toHaveBeenCalledWith('test-toast-1');
+    });
   });
 
   // ==========================================================================
@@ -342,6 +646,21 @@ describe('ToastItemComponent', () => {
       expect(mockOnClick).toHaveBeenCalled();
     });
 
+    it('should notify ToastService when action button clicked', () => {
+      const mockAction: ToastAction = {
+        label: 'Undo',
+        variant: 'primary',
+        onClick: vi.fn(),
+      };
+      hostComponent.toast.set(createMockToast({ actions: [mockAction] }));
+      fixture.detectChanges();
+
+      const actionButton = fixture.nativeElement.querySelector('.toastly-item__action');
+      actionButton?.click();
+
+      expect(mockToastService.handleAction).toHaveBeenCalledWith('test-toast-1', mockAction);
+    });
+
     it('should apply correct variant class to action buttons', () => {
       const primaryAction: ToastAction = {
         label: 'Primary',
@@ -400,6 +719,94 @@ describe('ToastItemComponent', () => {
     });
   });
 
+  // ==========================================================================
+  // Repeat Count Tests
+  // ==========================================================================
+
+  describe('repeat count badge', () => {
+    it('should not render a badge for a single occurrence', () => {
+      hostComponent.toast.set(createMockToast({ repeatCount: 1 }));
+      fixture.detectChanges();
+
+      const badge = fixture.nativeElement.querySelector('.toastly-item__count');
+      expect(badge).toBeNull();
+    });
+
+    it('should render the repeat count', () => {
+      hostComponent.toast.set(createMockToast({ repeatCount: 5 }));
+      fixture.detectChanges();
+
+      const badge = fixture.nativeElement.querySelector('.toastly-item__count');
+      expect(badge?.textContent?.trim()).toBe('×5');
+      expect(badge?.getAttribute('aria-label')).toBe('Shown 5 times');
+    });
+  });
+
+  // ==========================================================================
+  // Countdown Bar Tests
+  // ==========================================================================
+
+  describe('countdown bar', () => {
+    const runningTimer: ToastTimerState = {
+      durationMs: 4000,
+      remainingMs: 3000,
+      running: true,
+      startedAt: Date.now(),
+    };
+
+    it('should not render countdown when showCountdown is not set', () => {
+      mockToastService.setTimerState('test-toast-1', runningTimer);
+      fixture.detectChanges();
+
+      const countdown = fixture.nativeElement.querySelector('.toastly-item__countdown');
+      expect(countdown).toBeNull();
+    });
+
+    it('should not render countdown for toasts without a timer', () => {
+      hostComponent.toast.set(createMockToast({ showCountdown: true, durationMs: 0 }));
+      fixture.detectChanges();
+
+      const countdown = fixture.nativeElement.querySelector('.toastly-item__countdown');
+      expect(countdown).toBeNull();
+    });
+
+    it('should animate over the remaining time while the timer runs', () => {
+      hostComponent.toast.set(createMockToast({ showCountdown: true }));
+      mockToastService.setTimerState('test-toast-1', runningTimer);
+      fixture.detectChanges();
+
+      const bar = fixture.nativeElement.querySelector('.toastly-item__countdown-bar');
+      expect(bar.classList.contains('toastly-item__countdown-bar--running')).toBe(true);
+      expect(bar.style.animationDuration).toBe('3000ms');
+      expect(bar.style.getPropertyValue('--toastly-countdown-from')).toBe('0.75');
+    });
+
+    it('should freeze at the remaining fraction while paused', () => {
+      hostComponent.toast.set(createMockToast({ showCountdown: true }));
+      mockToastService.setTimerState('test-toast-1', {
+        ...runningTimer,
+        remainingMs: 1000,
+        running: false,
+        startedAt: null,
+      });
+      fixture.detectChanges();
+
+      const bar = fixture.nativeElement.querySelector('.toastly-item__countdown-bar');
+      expect(bar.classList.contains('toastly-item__countdown-bar--running')).toBe(false);
+      expect(bar.style.getPropertyValue('--toastly-countdown-from')).toBe('0.25');
+    });
+
+    it('should render alongside the progress bar', () => {
+      hostComponent.toast.set(createMockToast({ showCountdown: true, progressPercent: 40 }));
+      mockToastService.setTimerState('test-toast-1', runningTimer);
+      fixture.detectChanges();
+
+      const nativeElement = fixture.nativeElement as HTMLElement;
+      expect(nativeElement.querySelector('.toastly-item__progress-track')).not.toBeNull();
+      expect(nativeElement.querySelector('.toastly-item__countdown')).not.toBeNull();
+    });
+  });
+
   // ==========================================================================
   // Custom Style Class Tests
   // ==========================================================================
@@ -445,4 +852,122 @@ describe('ToastItemComponent', () => {
       expect(icon).toBeNull();
     });
   });
+
+  // ==========================================================================
+  // Message Format Tests
+  // ==========================================================================
+
+  describe('message format', () => {
+    function getMessage(): HTMLElement {
+      return fixture.nativeElement.querySelector('.toastly-item__message');
+    }
+
+    it('should render markup as text by default', () => {
+      hostComponent.toast.set(createMockToast({ message: '<b>report.pdf</b> uploaded' }));
+      fixture.detectChanges();
+
+      expect(getMessage().textContent).toBe('<b>report.pdf</b> uploaded');
+      expect(getMessage().querySelector('b')).toBeNull();
+    });
+
+    it('should render sanitized HTML', () => {
+      hostComponent.toast.set(
+        createMockToast({
+          message: '<b>report.pdf</b> uploaded<script>alert(1)</script>',
+          messageFormat: 'html',
+        })
+      );
+      fixture.detectChanges();
+
+      expect(getMessage().querySelector('b')?.textContent).toBe('report.pdf');
+      expect(getMessage().querySelector('script')).toBeNull();
+    });
+
+    it('should strip unsafe link URLs from HTML', () => {
+      hostComponent.toast.set(
+        createMockToast({ message: '<a href="javascript:alert(1)">Open</a>', messageFormat: 'html' })
+      );
+      fixture.detectChanges();
+
+      const link = getMessage().querySelector('a');
+      expect(link?.getAttribute('href')?.startsWith('javascript:')).toBe(false);
+    });
+
+    it('should render Markdown', () => {
+      hostComponent.toast.set(
+        createMockToast({
+          message: 'Uploaded **report.pdf** to [Reports](/reports)',
+          messageFormat: 'markdown',
+        })
+      );
+      fixture.detectChanges();
+
+      expect(getMessage().querySelector('strong')?.textContent).toBe('report.pdf');
+      expect(getMessage().querySelector('a')?.getAttribute('href')).toBe('/reports');
+    });
+
+    it('should keep raw HTML escaped in Markdown', () => {
+      hostComponent.toast.set(
+        createMockToast({ message: '<img src=x onerror="alert(1)">', messageFormat: 'markdown' })
+      );
+      fixture.detectChanges();
+
+      expect(getMessage().querySelector('img')).toBeNull();
+      expect(getMessage().textContent).toBe('<img src=x onerror="alert(1)">');
+    });
+  });
+
+  // ==========================================================================
+  // Custom Content Tests
+  // ==========================================================================
+
+  describe('custom content', () => {
+    it('should render a content component with its inputs', () => {
+      hostComponent.toast.set(
+        createMockToast({
+          component: InviteContentComponent,
+          componentInputs: { inviter: 'Ada' },
+        })
+      );
+      fixture.detectChanges();
+
+      const name = fixture.nativeElement.querySelector('.invite-name');
+      expect(name.textContent).toBe('Ada');
+      expect(fixture.nativeElement.querySelector('.toastly-item__message')).toBeNull();
+    });
+
+    it('should keep the close button next to custom content', () => {
+      hostComponent.toast.set(createMockToast({ component: InviteContentComponent }));
+      fixture.detectChanges();
+
+      expect(fixture.nativeElement.querySelector('.toastly-item__close')).not.toBeNull();
+    });
+
+    it('should provide the toast context to content components', () => {
+      hostComponent.toast.set(createMockToast({ component: InviteContentComponent }));
+      fixture.detectChanges();
+
+      const toastId = fixture.nativeElement.querySelector('.invite-toast-id');
+      expect(toastId.textContent).toBe('test-toast-1');
+
+      fixture.nativeElement.querySelector('.invite-accept').click();
+
+      expect(mockToastService.dismiss).toHaveBeenCalledWith('test-toast-1', 'action');
+    });
+
+    it('should render a content template with the toast and a dismiss function', () => {
+      const templateFixture = TestBed.createComponent(TemplateHostComponent);
+      templateFixture.detectChanges();
+      const templateHost = templateFixture.componentInstance;
+      templateHost.toast.set(createMockToast({ contentTemplate: templateHost.content() }));
+      templateFixture.detectChanges();
+
+      const message = templateFixture.nativeElement.querySelector('.template-message');
+      expect(message.textContent).toBe('Test message');
+
+      templateFixture.nativeElement.querySelector('.template-dismiss').click();
+
+      expect(mockToastService.dismiss).toHaveBeenCalledWith('test-toast-1', 'user-close');
+    });
+  });
 });
@@ -2,27 +2,60 @@
  * Toast Item Component - Individual toast notification display.
  *
  * Renders a single toast with:
- * - Icon or avatar
- * - Title and message
+ * - Icon, avatar or loading spinner
+ * - Title and message (plain text, sanitized HTML or Markdown),
+ *   or a custom content template or component
  * - Optional action buttons
  * - Optional progress bar
+ * - Optional countdown bar until auto-dismiss
+ * - Repeat count badge for deduplicated toasts
  * - Close button (if dismissible)
+ * - Enter and leave animations from the configured preset or custom callbacks
+ * - Swipe to dismiss towards the edge the toast is placed at
  *
  * Supports full customization via CSS variables and class inputs.
  */
 
 import {
+  afterNextRender,
   ChangeDetectionStrategy,
   Component,
   computed,
+  DestroyRef,
+  effect,
+  ElementRef,
   inject,
+  Injector,
   input,
   output,
+  signal,
+  untracked,
 } from '@angular/core';
-import { TOAST_ANIMATION_DURATION_MS, TOAST_ITEM_ROLES } from '../../constants/toast.constants';
-import { Toast, ToastAction } from '../../types/toast.type';
+import { DomSanitizer } from '@angular/platform-browser';
+import {
+  ANIMATION_DEFAULT_DURATION_MS,
+  ANIMATION_DEFAULT_EASING,
+  CSS_VAR_ANIMATION_DURATION,
+  CSS_VAR_ANIMATION_EASING,
+} from '../../animations/animation.constants';
+import { AnimationService } from '../../animations/animation.service';
+import { AnimationConfig, AnimationDirection } from '../../animations/animation.types';
+import {
+  TOAST_ITEM_ROLES,
+  TOAST_SWIPE_DISTANCE_THRESHOLD_PX,
+  TOAST_SWIPE_RUBBER_BAND_FACTOR,
+  TOAST_SWIPE_START_THRESHOLD_PX,
+  TOAST_SWIPE_VELOCITY_THRESHOLD,
+} from '../../constants/toast.constants';
+import {
+  TOAST_COMPONENT_CONTEXT,
+  ToastComponentContext,
+  ToastContentContext,
+} from '../../types/toast-content.type';
+import { Toast, ToastAction, ToastDismissReason, ToastTimerState } from '../../types/toast.type';
 import { ToastService } from '../../services/toast.service';
-import { NgTemplateOutlet } from '@angular/common';
+import { renderToastMessageHtml } from '../../utils/toast-message';
+import { NgComponentOutlet, NgTemplateOutlet } from '@angular/common';
 
 /**
  * Default icon SVG paths for each toast type.
@@ -35,16 +68,38 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
   danger: 'M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z',
 };
 
+/**
+ * Animation settings with every value but the custom callbacks filled in.
+ */
+type ResolvedAnimationConfig = AnimationConfig &
+  Required<Pick<AnimationConfig, 'preset' | 'durationMs' | 'easing'>>;
+
+/**
+ * A pointer pressed on the toast, dragging it once it has moved far enough.
+ */
+interface SwipeGesture {
+  readonly pointerId: number;
+  readonly startX: number;
+  readonly startY: number;
+  readonly startedAt: number;
+  readonly isDragging: boolean;
+}
+
 @Component({
   selector: 'toastly-item',
   changeDetection: ChangeDetectionStrategy.OnPush,
   host: {
     '[class]': 'hostClasses()',
+    '[style]': 'hostStyles()',
     '[attr.role]': 'ariaRole()',
     '[attr.aria-live]': '"polite"',
-    '[style.--toastly-animation-duration]': 'animationDurationCssValue',
+    '[attr.aria-busy]': 'isLoading() || null',
     '(mouseenter)': 'handleMouseEnter()',
     '(mouseleave)': 'handleMouseLeave()',
+    '(pointerdown)': 'handlePointerDown($event)',
+    '(pointermove)': 'handlePointerMove($event)',
+    '(pointerup)': 'handlePointerUp($event)',
+    '(pointercancel)': 'handlePointerCancel($event)',
   },
   template: `
     <div class="toastly-item__content">
@@ -60,6 +115,10 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
         <div class="toastly-item__icon" aria-hidden="true">
           <ng-container *ngTemplateOutlet="toast().iconTemplate" />
         </div>
+      } @else if (isLoading()) {
+        <div class="toastly-item__icon toastly-item__icon--loading" aria-hidden="true">
+          <span class="toastly-item__spinner"></span>
+        </div>
       } @else {
         <div class="toastly-item__icon toastly-item__icon--{{ toast().type }}" aria-hidden="true">
           <svg
@@ -76,13 +135,36 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
         </div>
       }
 
-      <!-- Text Content -->
-      <div class="toastly-item__text">
-        @if (toast().title) {
-          <div class="toastly-item__title">{{ toast().title }}</div>
-        }
-        <div class="toastly-item__message">{{ toast().message }}</div>
-      </div>
+      <!-- Custom Content or Text Content -->
+      @if (toast().component; as component) {
+        <div class="toastly-item__text toastly-item__text--custom">
+          <ng-container
+            *ngComponentOutlet="component; inputs: toast().componentInputs; injector: contentInjector"
+          />
+        </div>
+      } @else if (toast().contentTemplate; as contentTemplate) {
+        <div class="toastly-item__text toastly-item__text--custom">
+          <ng-container *ngTemplateOutlet="contentTemplate; context: contentContext()" />
+        </div>
+      } @else {
+        <div class="toastly-item__text">
+          @if (toast().title) {
+            <div class="toastly-item__title">{{ toast().title }}</div>
+          }
+          @if (messageHtml() !== null) {
+            <div class="toastly-item__message" [innerHTML]="messageHtml()"></div>
+          } @else {
+            <div class="toastly-item__message">{{ toast().message }}</div>
+          }
+        </div>
+      }
+
+      <!-- Repeat Count Badge -->
+      @if (repeatCount() > 1) {
+        <span class="toastly-item__count" [attr.aria-label]="'Shown ' + repeatCount() + ' times'">
+          ×{{ repeatCount() }}
+        </span>
+      }
 
       <!-- Close Button -->
       @if (toast().dismissible) {
@@ -131,11 +213,21 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
         }
       </div>
     }
+
+    <!-- Countdown Bar (re-created on every timer start so the animation restarts) -->
+    @for (countdown of countdownStates(); track countdown) {
+      <div class="toastly-item__countdown" aria-hidden="true">
+        <div
+          class="toastly-item__countdown-bar"
+          [class.toastly-item__countdown-bar--running]="countdown.running"
+          [style.--toastly-countdown-from]="countdown.remainingMs / countdown.durationMs"
+          [style.animation-duration.ms]="countdown.remainingMs"
+        ></div>
+      </div>
+    }
   `,
   styles: `
     :host {
-      --toastly-animation-duration: 300ms;
-
       display: block;
       width: 100%;
       max-width: 360px;
@@ -144,7 +236,21 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
       border-radius: var(--toastly-radius, 12px);
       box-shadow: var(--toastly-shadow, 0 4px 12px rgba(0, 0, 0, 0.08), 0 0 0 1px rgba(0, 0, 0, 0.05));
       overflow: hidden;
-      animation: toastly-slide-in var(--toastly-animation-duration) ease-out;
+      transition: translate var(--toastly-animation-duration) var(--toastly-animation-easing);
+    }
+
+    :host(.toastly-item--swipe-x) {
+      touch-action: pan-y;
+    }
+
+    :host(.toastly-item--swipe-y) {
+      touch-action: pan-x;
+    }
+
+    :host(.toastly-item--swiping) {
+      transition: none;
+      cursor: grabbing;
+      user-select: none;
     }
 
     :host(.toastly-item--dark) {
@@ -156,38 +262,21 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
     }
 
     :host(.toastly-item--exiting) {
-      animation: toastly-slide-out var(--toastly-animation-duration) ease-in forwards;
+      pointer-events: none;
     }
 
-    @keyframes toastly-slide-in {
-      from {
-        opacity: 0;
-        transform: translateX(100%);
-      }
-      to {
-        opacity: 1;
-        transform: translateX(0);
-      }
-    }
-
-    @keyframes toastly-slide-out {
-      from {
-        opacity: 1;
-        transform: translateX(0);
-      }
+    @keyframes toastly-spin {
       to {
-        opacity: 0;
-        transform: translateX(100%);
+        transform: rotate(360deg);
       }
     }
 
     @media (prefers-reduced-motion: reduce) {
       :host {
-        animation: none;
+        transition: none;
       }
-      :host(.toastly-item--exiting) {
-        animation: none;
-        opacity: 0;
+      .toastly-item__spinner {
+        animation-duration: 1.5s;
       }
     }
 
@@ -225,6 +314,21 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
       color: var(--toastly-danger, #dc2626);
     }
 
+    .toastly-item__icon--loading {
+      color: var(--toastly-loading, #71717a);
+    }
+
+    .toastly-item__spinner {
+      display: block;
+      box-sizing: border-box;
+      width: 100%;
+      height: 100%;
+      border: 2px solid currentColor;
+      border-right-color: transparent;
+      border-radius: 50%;
+      animation: toastly-spin 0.75s linear infinite;
+    }
+
     .toastly-item__avatar {
       flex-shrink: 0;
       width: 40px;
@@ -252,6 +356,40 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
       color: var(--toastly-text-muted, #71717a);
     }
 
+    .toastly-item__message a {
+      color: inherit;
+      text-decoration: underline;
+    }
+
+    .toastly-item__message code {
+      font-family: var(--toastly-code-font-family, ui-monospace, monospace);
+      font-size: 0.9em;
+      padding: 0 4px;
+      border-radius: 4px;
+      background-color: var(--toastly-code-bg, rgba(0, 0, 0, 0.06));
+    }
+
+    :host(.toastly-item--dark) .toastly-item__message code {
+      background-color: var(--toastly-code-bg, rgba(255, 255, 255, 0.1));
+    }
+
+    .toastly-item__count {
+      flex-shrink: 0;
+      min-width: 24px;
+      padding: 2px 6px;
+      border-radius: 9999px;
+      font-size: 12px;
+      font-weight: 600;
+      line-height: 1.4;
+      text-align: center;
+      background-color: var(--toastly-count-bg, rgba(0, 0, 0, 0.06));
+      color: var(--toastly-text-muted, #71717a);
+    }
+
+    :host(.toastly-item--dark) .toastly-item__count {
+      background-color: var(--toastly-count-bg, rgba(255, 255, 255, 0.1));
+    }
+
     .toastly-item__close {
       flex-shrink: 0;
       display: flex;
@@ -298,6 +436,33 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
       transition: width 150ms ease;
     }
 
+    .toastly-item__countdown {
+      height: var(--toastly-countdown-height, 3px);
+      background-color: var(--toastly-countdown-track, transparent);
+    }
+
+    .toastly-item__countdown-bar {
+      height: 100%;
+      background-color: var(--toastly-countdown-color, var(--toastly-text-muted, #71717a));
+      transform-origin: left center;
+      transform: scaleX(var(--toastly-countdown-from, 1));
+    }
+
+    .toastly-item__countdown-bar--running {
+      animation-name: toastly-countdown;
+      animation-timing-function: linear;
+      animation-fill-mode: forwards;
+    }
+
+    @keyframes toastly-countdown {
+      from {
+        transform: scaleX(var(--toastly-countdown-from, 1));
+      }
+      to {
+        transform: scaleX(0);
+      }
+    }
+
     .toastly-item__actions {
       display: flex;
       align-items: center;
@@ -348,25 +513,112 @@ const TOAST_TYPE_ICON_PATHS: Readonly<Record<string, string>> = {
       background-color: rgba(255, 255, 255, 0.1);
     }
   `,
-  imports: [NgTemplateOutlet],
+  imports: [NgComponentOutlet, NgTemplateOutlet],
 })
 export class ToastItemComponent {
   private readonly toastService = inject(ToastService);
+  private readonly sanitizer = inject(DomSanitizer);
+  private readonly animationService = inject(AnimationService);
+  private readonly element: HTMLElement = inject(ElementRef).nativeElement;
+
+  /**
+   * The press being tracked for swipe to dismiss.
+   */
+  private swipe: SwipeGesture | null = null;
 
   /**
    * The toast data to display.
    */
   readonly toast = input.required<Toast>();
 
+  /**
+   * Whether the toast was dismissed and plays its leave animation.
+   * The container removes it once `ToastService.completeExit()` is called.
+   */
+  readonly exiting = input<boolean>(false);
+
   /**
    * Event emitted when the toast requests dismissal.
    */
   readonly dismissed = output<string>();
 
   /**
-   * CSS value for animation duration.
+   * Injector for content components, providing TOAST_COMPONENT_CONTEXT.
+   * Created once so the component is not re-created when the toast changes.
+   */
+  readonly contentInjector = Injector.create({
+    providers: [
+      {
+        provide: TOAST_COMPONENT_CONTEXT,
+        useValue: {
+          toast: this.toast,
+          dismiss: (reason?: ToastDismissReason) => this.handleDismiss(reason),
+        } satisfies ToastComponentContext,
+      },
+    ],
+    parent: inject(Injector),
+  });
+
+  /**
+   * Animation settings: the toast's own, then the global configuration.
+   * A preset chosen for the toast wins over global custom callbacks.
+   */
+  readonly animation = computed((): ResolvedAnimationConfig => {
+    const animation = this.toast().animation ?? {};
+
+    return {
+      preset: animation.preset ?? this.toastService.animationPreset(),
+      custom:
+        animation.custom ??
+        (animation.preset === undefined ? this.toastService.customAnimation() : undefined),
+      durationMs: animation.durationMs ?? ANIMATION_DEFAULT_DURATION_MS,
+      easing: animation.easing ?? ANIMATION_DEFAULT_EASING,
+    };
+  });
+
+  /**
+   * Animation duration and easing as CSS variables, for styles and custom animations.
+   */
+  readonly animationStyles = computed((): Record<string, string> => {
+    const { durationMs, easing } = this.animation();
+
+    return {
+      [CSS_VAR_ANIMATION_DURATION]: `${durationMs}ms`,
+      [CSS_VAR_ANIMATION_EASING]: easing,
+    };
+  });
+
+  /**
+   * Distance the toast is dragged towards its edge (negative when dragged away from it).
    */
-  readonly animationDurationCssValue = `${TOAST_ANIMATION_DURATION_MS}ms`;
+  readonly swipeOffsetPx = signal(0);
+
+  /**
+   * Whether the toast is being dragged.
+   */
+  readonly isSwiping = signal(false);
+
+  /**
+   * Edge the toast is swiped towards, the one its position is attached to.
+   */
+  readonly swipeDirection = computed((): AnimationDirection => {
+    return this.animationService.getDirectionFromPosition(this.toast().position);
+  });
+
+  /**
+   * Whether the toast can be swiped away.
+   */
+  readonly canSwipe = computed((): boolean => {
+    const toast = this.toast();
+    return toast.swipeToDismiss === true && toast.dismissible && !this.exiting();
+  });
+
+  /**
+   * Inline styles of the host: animation variables and the swipe offset.
+   */
+  readonly hostStyles = computed((): Record<string, string | null> => {
+    return { ...this.animationStyles(), translate: this.swipeTranslate() };
+  });
 
   /**
    * Computed icon SVG path based on toast type.
@@ -376,6 +628,22 @@ export class ToastItemComponent {
     return TOAST_TYPE_ICON_PATHS[toastType] ?? TOAST_TYPE_ICON_PATHS['info'];
   });
 
+  /**
+   * Sanitized HTML for 'html' and 'markdown' messages.
+   * Null for plain-text messages, which are interpolated as text.
+   */
+  readonly messageHtml = computed((): string | null => {
+    const { message, messageFormat } = this.toast();
+    return renderToastMessageHtml(this.sanitizer, message, messageFormat);
+  });
+
+  /**
+   * Whether the toast is waiting for an async operation to settle.
+   */
+  readonly isLoading = computed((): boolean => {
+    return this.toast().type === 'loading';
+  });
+
   /**
    * Computed ARIA role based on toast type.
    */
@@ -398,9 +666,33 @@ export class ToastItemComponent {
       classes.push(toast.styleClass);
     }
 
+    if (this.exiting()) {
+      classes.push('toastly-item--exiting');
+    }
+
+    if (this.canSwipe()) {
+      const direction = this.swipeDirection();
+      classes.push(
+        direction === 'left' || direction === 'right'
+          ? 'toastly-item--swipe-x'
+          : 'toastly-item--swipe-y'
+      );
+    }
+
+    if (this.isSwiping()) {
+      classes.push('toastly-item--swiping');
+    }
+
     return classes.join(' ');
   });
 
+  /**
+   * How many times the toast has been repeated while active.
+   */
+  readonly repeatCount = computed((): number => {
+    return this.toast().repeatCount ?? 1;
+  });
+
   /**
    * Whether the toast has action buttons.
    */
@@ -409,12 +701,62 @@ export class ToastItemComponent {
   });
 
   /**
-   * Handles the dismiss button click.
+   * Template context for the toast's content template.
+   */
+  readonly contentContext = computed((): ToastContentContext => {
+    const toast = this.toast();
+    return {
+      $implicit: toast,
+      toast,
+      dismiss: (reason?: ToastDismissReason) => this.handleDismiss(reason),
+    };
+  });
+
+  /**
+   * Countdown state to render, as a list of zero or one entries.
+   * A new entry is produced whenever the timer starts, pauses or resumes.
+   */
+  readonly countdownStates = computed((): readonly ToastTimerState[] => {
+    const toast = this.toast();
+    const timerState = this.toastService.timerStates()[toast.id];
+
+    return toast.showCountdown && timerState ? [timerState] : [];
+  });
+
+  /**
+   * Whether hovering pauses auto-dismiss.
+   * Critical toasts always pause so they can be read.
+   */
+  readonly pausesOnHover = computed((): boolean => {
+    return this.toastService.pauseOnHover() || this.toast().priority === 'critical';
+  });
+
+  constructor() {
+    afterNextRender(() => {
+      void this.playEnterAnimation();
+    });
+
+    effect(() => {
+      if (this.exiting()) {
+        untracked(() => void this.playLeaveAnimation());
+      }
+    });
+
+    // Removed before its animation finished, e.g. with its container
+    inject(DestroyRef).onDestroy(() => {
+      if (this.exiting()) {
+        this.toastService.completeExit(this.toast().id);
+      }
+    });
+  }
+
+  /**
+   * Handles the dismiss button click and dismiss requests from custom content.
    */
-  handleDismiss(): void {
+  handleDismiss(reason: ToastDismissReason = 'user-close'): void {
     const toastId = this.toast().id;
     this.dismissed.emit(toastId);
-    this.toastService.dismiss(toastId);
+    this.toastService.dismiss(toastId, reason);
   }
 
   /**
@@ -422,13 +764,14 @@ export class ToastItemComponent {
    */
   handleActionClick(action: ToastAction): void {
     action.onClick();
+    this.toastService.handleAction(this.toast().id, action);
   }
 
   /**
    * Pauses auto-dismiss on mouse enter (if configured).
    */
   handleMouseEnter(): void {
-    if (this.toastService.pauseOnHover()) {
+    if (this.pausesOnHover()) {
       this.toastService.pauseTimer(this.toast().id);
     }
   }
@@ -437,7 +780,180 @@ export class ToastItemComponent {
    * Resumes auto-dismiss on mouse leave (if configured).
    */
   handleMouseLeave(): void {
-    if (this.toastService.pauseOnHover()) {
+    if (this.pausesOnHover()) {
+      this.toastService.resumeTimer(this.toast().id);
+    }
+  }
+
+  /**
+   * Starts tracking a press that may become a swipe.
+   */
+  handlePointerDown(event: PointerEvent): void {
+    if (!this.canSwipe() || !event.isPrimary || event.button !== 0) {
+      return;
+    }
+
+    this.swipe = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      startedAt: Date.now(),
+      isDragging: false,
+    };
+  }
+
+  /**
+   * Drags the toast along with the pointer. The timer is paused while dragging.
+   */
+  handlePointerMove(event: PointerEvent): void {
+    const swipe = this.swipe;
+    if (swipe?.pointerId !== event.pointerId) {
+      return;
+    }
+
+    const distance = this.swipeDistance(swipe, event);
+
+    if (!swipe.isDragging) {
+      if (Math.abs(distance) < TOAST_SWIPE_START_THRESHOLD_PX) {
+        return;
+      }
+
+      this.swipe = { ...swipe, isDragging: true };
+      this.element.setPointerCapture(event.pointerId);
+      this.isSwiping.set(true);
+      this.toastService.pauseTimer(this.toast().id);
+    }
+
+    this.swipeOffsetPx.set(distance >= 0 ? distance : distance * TOAST_SWIPE_RUBBER_BAND_FACTOR);
+  }
+
+  /**
+   * Dismisses the toast when it was dragged or flicked far enough, otherwise
+   * lets it snap back.
+   */
+  handlePointerUp(event: PointerEvent): void {
+    const swipe = this.swipe;
+    if (swipe?.pointerId !== event.pointerId) {
+      return;
+    }
+
+    this.swipe = null;
+    if (!swipe.isDragging) {
+      return;
+    }
+
+    this.isSwiping.set(false);
+
+    const distance = this.swipeDistance(swipe, event);
+    const velocity = distance / Math.max(Date.now() - swipe.startedAt, 1);
+
+    if (
+      distance >= TOAST_SWIPE_DISTANCE_THRESHOLD_PX ||
+      velocity >= TOAST_SWIPE_VELOCITY_THRESHOLD
+    ) {
+      this.handleDismiss('swipe');
+    } else {
+      this.cancelSwipe(event);
+    }
+  }
+
+  /**
+   * Lets the toast snap back when the browser takes over the pointer, e.g. to scroll.
+   */
+  handlePointerCancel(event: PointerEvent): void {
+    const swipe = this.swipe;
+    if (swipe?.pointerId !== event.pointerId) {
+      return;
+    }
+
+    this.swipe = null;
+    if (swipe.isDragging) {
+      this.isSwiping.set(false);
+      this.cancelSwipe(event);
+    }
+  }
+
+  /**
+   * Plays the enter animation of the configured preset or custom callbacks.
+   */
+  private async playEnterAnimation(): Promise<void> {
+    const { preset, custom, durationMs, easing } = this.animation();
+
+    await this.animationService.runEnterAnimation(
+      this.element,
+      this.toast().position,
+      preset,
+      custom,
+      durationMs,
+      easing
+    );
+  }
+
+  /**
+   * Plays the leave animation, then lets the container remove the toast.
+   */
+  private async playLeaveAnimation(): Promise<void> {
+    const toast = this.toast();
+    const { preset, custom, durationMs, easing } = this.animation();
+
+    try {
+      await this.animationService.runLeaveAnimation(
+        this.element,
+        toast.position,
+        preset,
+        custom,
+        durationMs,
+        easing
+      );
+    } finally {
+      // Leaves the screen even when a custom animation fails
+      this.toastService.completeExit(toast.id);
+    }
+  }
+
+  /**
+   * Distance the pointer moved towards the toast's edge.
+   */
+  private swipeDistance(swipe: SwipeGesture, event: PointerEvent): number {
+    switch (this.swipeDirection()) {
+      case 'left':
+        return swipe.startX - event.clientX;
+      case 'right':
+        return event.clientX - swipe.startX;
+      case 'top':
+        return swipe.startY - event.clientY;
+      case 'bottom':
+        return event.clientY - swipe.startY;
+    }
+  }
+
+  /**
+   * CSS `translate` of the dragged toast. It composes with the transforms of
+   * the enter and leave animations.
+   */
+  private swipeTranslate(): string | null {
+    const offset = this.swipeOffsetPx();
+    if (offset === 0) {
+      return null;
+    }
+
+    switch (this.swipeDirection()) {
+      case 'left':
+        return `${-offset}px 0px`;
+      case 'right':
+        return `${offset}px 0px`;
+      case 'top':
+        return `0px ${-offset}px`;
+      case 'bottom':
+        return `0px ${offset}px`;
+    }
+  }
+
+  private cancelSwipe(event: PointerEvent): void {
+    this.swipeOffsetPx.set(0);
+
+    // A mouse still over the toast keeps it paused (see pauseOnHover)
+    if (event.pointerType !== 'mouse' || !this.pausesOnHover()) {
       this.toastService.resumeTimer(this.toast().id);
     }
   }
@@ -0,0 +1,192 @@
+/**
+ * Tests for ToastNotificationCenterComponent
+ *
+ * Verifies:
+ * - Entry rendering and empty state
+ * - Sanitized 'html' and 'markdown' messages
+ * - Unread badge and read state classes
+ * - Mark as read and clear controls
+ */
+
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { ToastNotificationCenterComponent } from './toast-notification-center.component';
+import { ToastHistoryService } from '../../services/toast-history.service';
+import { ToastHistoryEntry } from '../../types/toast-history.type';
+import { Toast, ToastMessageFormat } from '../../types/toast.type';
+
+// Mock ToastHistoryService
+class MockToastHistoryService {
+  private _entries = signal<readonly ToastHistoryEntry[]>([]);
+
+  entries = this._entries.asReadonly();
+  unreadCount = computed(() => this._entries().filter((entry) => !entry.read).length);
+
+  markAsRead = vi.fn();
+  markAllAsRead = vi.fn();
+  clear = vi.fn();
+
+  setEntries(entries: ToastHistoryEntry[]): void {
+    this._entries.set(entries);
+  }
+}
+
+function createMockEntry(id: string, read = false): ToastHistoryEntry {
+  const toast: Toast = {
+    id,
+    message: `Message for ${id}`,
+    title: `Title ${id}`,
+    type: 'success',
+    theme: 'light',
+    durationMs: 5000,
+    dismissible: true,
+    position: 'bottom-right',
+    actions: [],
+    createdAt: Date.now(),
+  };
+
+  return { id, toast, dismissedAt: Date.now(), reason: 'timeout', read };
+}
+
+describe('ToastNotificationCenterComponent', () => {
+  let fixture: ComponentFixture<ToastNotificationCenterComponent>;
+  let element: HTMLElement;
+  let mockHistory: MockToastHistoryService;
+
+  beforeEach(async () => {
+    mockHistory = new MockToastHistoryService();
+
+    await TestBed.configureTestingModule({
+      imports: [ToastNotificationCenterComponent],
+      providers: [{ provide: ToastHistoryService, useValue: mockHistory }],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ToastNotificationCenterComponent);
+    element = fixture.nativeElement;
+    fixture.detectChanges();
+  });
+
+  function getButton(label: string): HTMLButtonElement {
+    const buttons = Array.from(element.querySelectorAll<HTMLButtonElement>('button'));
+    return buttons.find((button) => button.textContent?.trim() === label)!;
+  }
+
+  // ==========================================================================
+  // Rendering Tests
+  // ==========================================================================
+
+  describe('rendering', () => {
+    it('should show the empty state without entries', () => {
+      expect(element.querySelector('.toastly-center__empty')?.textContent).toContain(
+        'No notifications'
+      );
+      expect(element.querySelector('.toastly-center__list')).toBeNull();
+    });
+
+    it('should render one list item per entry', () => {
+      mockHistory.setEntries([createMockEntry('a'), createMockEntry('b', true)]);
+      fixture.detectChanges();
+
+      const items = element.querySelectorAll('.toastly-center__entry');
+      expect(items.length).toBe(2);
+      expect(items[0].textContent).toContain('Title a');
+      expect(items[0].textContent).toContain('Message for a');
+      expect(items[0].classList.contains('toastly-center__entry--success')).toBe(true);
+    });
+
+    it('should render formatted messages like the toasts do', () => {
+      const withMessage = (
+        entry: ToastHistoryEntry,
+        message: string,
+        messageFormat: ToastMessageFormat
+      ): ToastHistoryEntry => ({ ...entry, toast: { ...entry.toast, message, messageFormat } });
+
+      mockHistory.setEntries([
+        withMessage(createMockEntry('a'), 'Build **failed**', 'markdown'),
+        withMessage(createMockEntry('b'), '<em>Saved</em><img src="x" onerror="alert(1)">', 'html'),
+      ]);
+      fixture.detectChanges();
+
+      const messages = element.querySelectorAll('.toastly-center__message');
+      expect(messages[0].innerHTML).toBe('Build <strong>failed</strong>');
+      expect(messages[1].querySelector('em')?.textContent).toBe('Saved');
+      expect(messages[1].querySelector('img')?.getAttribute('onerror')).toBeNull();
+    });
+
+    it('should show when each entry was dismissed, with a machine-readable time', () => {
+      const entry = { ...createMockEntry('a'), dismissedAt: Date.UTC(2024, 2, 5, 14, 30, 15, 250) };
+      mockHistory.setEntries([entry]);
+      fixture.detectChanges();
+
+      const time = element.querySelector('.toastly-center__time')!;
+      expect(Date.parse(time.getAttribute('datetime')!)).toBe(entry.dismissedAt);
+      expect(time.textContent).toMatch(/\d{1,2}\/\d{1,2}\/\d{2}/);
+    });
+
+    it('should mark unread entries', () => {
+      mockHistory.setEntries([createMockEntry('a'), createMockEntry('b', true)]);
+      fixture.detectChanges();
+
+      const items = element.querySelectorAll('.toastly-center__entry');
+      expect(items[0].classList.contains('toastly-center__entry--unread')).toBe(true);
+      expect(items[1].classList.contains('toastly-center__entry--unread')).toBe(false);
+    });
+
+    it('should show the unread count', () => {
+      mockHistory.setEntries([
+        createMockEntry('a'),
+        createMockEntry('b'),
+        createMockEntry('c', true),
+      ]);
+      fixture.detectChanges();
+
+      expect(element.querySelector('.toastly-center__badge')?.textContent?.trim()).toBe('2');
+    });
+
+    it('should use the heading as the region label', () => {
+      fixture.componentRef.setInput('heading', 'Inbox');
+      fixture.detectChanges();
+
+      expect(element.getAttribute('role')).toBe('region');
+      expect(element.getAttribute('aria-label')).toBe('Inbox');
+      expect(element.querySelector('.toastly-center__heading')?.textContent).toContain('Inbox');
+    });
+  });
+
+  // ==========================================================================
+  // Control Tests
+  // ==========================================================================
+
+  describe('controls', () => {
+    beforeEach(() => {
+      mockHistory.setEntries([createMockEntry('a')]);
+      fixture.detectChanges();
+    });
+
+    it('should mark a single entry as read', () => {
+      getButton('Mark as read').click();
+
+      expect(mockHistory.markAsRead).toHaveBeenCalledWith('a');
+    });
+
+    it('should mark all entries as read', () => {
+      getButton('Mark all as read').click();
+
+      expect(mockHistory.markAllAsRead).toHaveBeenCalled();
+    });
+
+    it('should clear the history', () => {
+      getButton('Clear').click();
+
+      expect(mockHistory.clear).toHaveBeenCalled();
+    });
+
+    it('should disable the controls when there is nothing to act on', () => {
+      mockHistory.setEntries([]);
+      fixture.detectChanges();
+
+      expect(getButton('Mark all as read').disabled).toBe(true);
+      expect(getButton('Clear').disabled).toBe(true);
+    });
+  });
+});
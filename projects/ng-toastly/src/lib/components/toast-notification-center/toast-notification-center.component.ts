@@ -0,0 +1,292 @@
+/**
+ * Toast Notification Center Component - Inbox of past notifications.
+ *
+ * This component:
+ * - Lists dismissed toasts from ToastHistoryService, newest first
+ * - Renders 'html' and 'markdown' messages like the toasts themselves
+ * - Shows the number of unread notifications
+ * - Supports marking notifications as read and clearing the history
+ *
+ * Place it wherever the app shows its inbox, e.g. in a header dropdown.
+ */
+
+import { DatePipe } from '@angular/common';
+import { ChangeDetectionStrategy, Component, computed, inject, input } from '@angular/core';
+import { DomSanitizer } from '@angular/platform-browser';
+import { ToastHistoryService } from '../../services/toast-history.service';
+import { renderToastMessageHtml } from '../../utils/toast-message';
+
+@Component({
+  selector: 'toastly-notification-center',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    class: 'toastly-center',
+    role: 'region',
+    '[attr.aria-label]': 'heading()',
+  },
+  template: `
+    <div class="toastly-center__header">
+      <h2 class="toastly-center__heading">
+        {{ heading() }}
+        @if (unreadCount() > 0) {
+          <span class="toastly-center__badge" [attr.aria-label]="unreadCount() + ' unread'">
+            {{ unreadCount() }}
+          </span>
+        }
+      </h2>
+      <div class="toastly-center__controls">
+        <button
+          type="button"
+          class="toastly-center__control"
+          [disabled]="unreadCount() === 0"
+          (click)="history.markAllAsRead()"
+        >
+          Mark all as read
+        </button>
+        <button
+          type="button"
+          class="toastly-center__control"
+          [disabled]="entries().length === 0"
+          (click)="history.clear()"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+
+    @if (entries().length > 0) {
+      <ul class="toastly-center__list">
+        @for (entry of entries(); track entry.id) {
+          <li
+            class="toastly-center__entry toastly-center__entry--{{ entry.toast.type }}"
+            [class.toastly-center__entry--unread]="!entry.read"
+          >
+            <span class="toastly-center__indicator" aria-hidden="true"></span>
+            <div class="toastly-center__text">
+              @if (entry.toast.title) {
+                <div class="toastly-center__title">{{ entry.toast.title }}</div>
+              }
+              @if (messageHtmlById().has(entry.id)) {
+                <div
+                  class="toastly-center__message"
+                  [innerHTML]="messageHtmlById().get(entry.id)"
+                ></div>
+              } @else {
+                <div class="toastly-center__message">{{ entry.toast.message }}</div>
+              }
+              <time
+                class="toastly-center__time"
+                [attr.datetime]="entry.dismissedAt | date: datetimeFormat"
+              >
+                {{ entry.dismissedAt | date: 'short' }}
+              </time>
+            </div>
+            @if (!entry.read) {
+              <button
+                type="button"
+                class="toastly-center__control"
+                (click)="history.markAsRead(entry.id)"
+              >
+                Mark as read
+              </button>
+            }
+          </li>
+        }
+      </ul>
+    } @else {
+      <p class="toastly-center__empty">{{ emptyLabel() }}</p>
+    }
+  `,
+  styles: `
+    :host {
+      display: block;
+      width: 100%;
+      max-width: 400px;
+      background-color: var(--toastly-bg, #ffffff);
+      color: var(--toastly-text, #18181b);
+      border-radius: var(--toastly-radius, 12px);
+      box-shadow: var(--toastly-shadow, 0 4px 12px rgba(0, 0, 0, 0.08), 0 0 0 1px rgba(0, 0, 0, 0.05));
+      overflow: hidden;
+    }
+
+    .toastly-center__header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 8px;
+      padding: 12px var(--toastly-padding, 16px);
+      border-bottom: 1px solid var(--toastly-border, #e4e4e7);
+    }
+
+    .toastly-center__heading {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin: 0;
+      font-size: 14px;
+      font-weight: 600;
+    }
+
+    .toastly-center__badge {
+      min-width: 20px;
+      padding: 0 6px;
+      border-radius: 9999px;
+      font-size: 12px;
+      line-height: 20px;
+      text-align: center;
+      background-color: var(--toastly-info, #7c3aed);
+      color: #ffffff;
+    }
+
+    .toastly-center__controls {
+      display: flex;
+      gap: 4px;
+    }
+
+    .toastly-center__control {
+      padding: 4px 8px;
+      border: none;
+      border-radius: 4px;
+      background: transparent;
+      color: var(--toastly-text-muted, #71717a);
+      font-size: 12px;
+      cursor: pointer;
+    }
+
+    .toastly-center__control:hover:not(:disabled) {
+      background-color: rgba(0, 0, 0, 0.05);
+      color: var(--toastly-text, #18181b);
+    }
+
+    .toastly-center__control:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+
+    .toastly-center__list {
+      max-height: var(--toastly-center-max-height, 400px);
+      margin: 0;
+      padding: 0;
+      overflow-y: auto;
+      list-style: none;
+    }
+
+    .toastly-center__entry {
+      display: flex;
+      align-items: flex-start;
+      gap: 12px;
+      padding: 12px var(--toastly-padding, 16px);
+    }
+
+    .toastly-center__entry + .toastly-center__entry {
+      border-top: 1px solid var(--toastly-border, #e4e4e7);
+    }
+
+    .toastly-center__indicator {
+      flex-shrink: 0;
+      width: 8px;
+      height: 8px;
+      margin-top: 6px;
+      border-radius: 50%;
+      background-color: var(--toastly-text-muted, #71717a);
+    }
+
+    .toastly-center__entry--info .toastly-center__indicator {
+      background-color: var(--toastly-info, #7c3aed);
+    }
+
+    .toastly-center__entry--success .toastly-center__indicator {
+      background-color: var(--toastly-success, #16a34a);
+    }
+
+    .toastly-center__entry--warning .toastly-center__indicator {
+      background-color: var(--toastly-warning, #f59e0b);
+    }
+
+    .toastly-center__entry--danger .toastly-center__indicator {
+      background-color: var(--toastly-danger, #dc2626);
+    }
+
+    .toastly-center__text {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .toastly-center__title {
+      font-size: 14px;
+      font-weight: 600;
+      line-height: 1.4;
+    }
+
+    .toastly-center__message {
+      font-size: 14px;
+      line-height: 1.4;
+      color: var(--toastly-text-muted, #71717a);
+    }
+
+    .toastly-center__entry--unread .toastly-center__message {
+      color: var(--toastly-text, #18181b);
+    }
+
+    .toastly-center__time {
+      font-size: 12px;
+      color: var(--toastly-text-muted, #71717a);
+    }
+
+    .toastly-center__empty {
+      margin: 0;
+      padding: 24px var(--toastly-padding, 16px);
+      font-size: 14px;
+      text-align: center;
+      color: var(--toastly-text-muted, #71717a);
+    }
+  `,
+  imports: [DatePipe],
+})
+export class ToastNotificationCenterComponent {
+  protected readonly history = inject(ToastHistoryService);
+  private readonly sanitizer = inject(DomSanitizer);
+
+  /**
+   * ISO 8601 format of the `datetime` attribute.
+   */
+  protected readonly datetimeFormat = "yyyy-MM-dd'T'HH:mm:ss.SSSZZZZZ";
+
+  /**
+   * Heading shown above the list, also used as the region label.
+   */
+  readonly heading = input<string>('Notifications');
+
+  /**
+   * Text shown when there are no notifications.
+   */
+  readonly emptyLabel = input<string>('No notifications');
+
+  /**
+   * Recorded notifications, newest first.
+   */
+  readonly entries = computed(() => this.history.entries());
+
+  /**
+   * Number of unread notifications.
+   */
+  readonly unreadCount = computed(() => this.history.unreadCount());
+
+  /**
+   * Sanitized HTML of 'html' and 'markdown' messages, keyed by entry ID.
+   * Plain-text messages have no entry and are interpolated as text.
+   */
+  readonly messageHtmlById = computed((): ReadonlyMap<string, string> => {
+    const messageHtmlById = new Map<string, string>();
+
+    for (const { id, toast } of this.entries()) {
+      const { message, messageFormat } = toast;
+      const messageHtml = renderToastMessageHtml(this.sanitizer, message, messageFormat);
+      if (messageHtml !== null) {
+        messageHtmlById.set(id, messageHtml);
+      }
+    }
+
+    return messageHtmlById;
+  });
+}
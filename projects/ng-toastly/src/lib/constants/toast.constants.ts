@@ -6,6 +6,7 @@
  */
 
 import { ToastGlobalConfig } from '../types/toast-config.type';
+import { ToastPriority } from '../types/toast.type';
 
 // ============================================================================
 // TIMING CONSTANTS
@@ -69,6 +70,26 @@ export const PROGRESS_MINIMUM_PERCENT = 0;
  */
 export const PROGRESS_MAXIMUM_PERCENT = 100;
 
+// ============================================================================
+// PRIORITY CONSTANTS
+// ============================================================================
+
+/**
+ * Priority used when a toast does not specify one.
+ */
+export const DEFAULT_TOAST_PRIORITY: ToastPriority = 'normal';
+
+/**
+ * Numeric rank of each priority level.
+ * Toasts with a higher rank are ordered first and can preempt lower ones.
+ */
+export const TOAST_PRIORITY_RANK: Readonly<Record<ToastPriority, number>> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  critical: 3,
+};
+
 // ============================================================================
 // ID GENERATION
 // ============================================================================
@@ -92,13 +113,132 @@ export const DEFAULT_TOAST_CONFIG: ToastGlobalConfig = {
   theme: 'light',
   defaultDurationMs: TOAST_AUTO_DISMISS_DELAY_MS,
   maximumVisibleToasts: MAXIMUM_VISIBLE_TOASTS,
+  overflowStrategy: 'queue',
   newestOnTop: true,
   pauseOnHover: true,
+  pauseOnPageHidden: false,
+  pauseOnWindowBlur: false,
+  dedupeStrategy: 'count',
+  autoDedupe: false,
   dismissibleByDefault: true,
+  showCountdown: false,
+  swipeToDismiss: true,
+  dismissOnNavigation: false,
+  nativeFallback: false,
   defaultType: 'info',
   animationPreset: 'slide',
 };
 
+// ============================================================================
+// ROUTER INTEGRATION
+// ============================================================================
+
+/**
+ * Default route `data` key holding per-route configuration overrides.
+ */
+export const TOAST_ROUTE_DATA_KEY = 'toastly';
+
+// ============================================================================
+// HTTP ERROR TOASTS
+// ============================================================================
+
+/**
+ * Title for failed requests without a configured title (the status is appended).
+ */
+export const HTTP_ERROR_TOAST_DEFAULT_TITLE = 'Request failed';
+
+/**
+ * Message for failed requests whose response has no readable message.
+ */
+export const HTTP_ERROR_TOAST_DEFAULT_MESSAGE = 'Something went wrong. Please try again.';
+
+/**
+ * Title for requests that never reached the server (status 0).
+ */
+export const HTTP_ERROR_TOAST_NETWORK_TITLE = 'Network error';
+
+/**
+ * Message for requests that never reached the server (status 0).
+ */
+export const HTTP_ERROR_TOAST_NETWORK_MESSAGE = 'Check your connection and try again.';
+
+// ============================================================================
+// ERROR HANDLER TOASTS
+// ============================================================================
+
+/**
+ * Default title for toasts shown for uncaught errors.
+ */
+export const ERROR_HANDLER_TOAST_DEFAULT_TITLE = 'Unexpected error';
+
+/**
+ * Message for uncaught errors without a readable message.
+ */
+export const ERROR_HANDLER_TOAST_DEFAULT_MESSAGE = 'Something went wrong.';
+
+/**
+ * Default minimum time between two uncaught error toasts.
+ * Prevents a flood of toasts when an error repeats in a loop.
+ */
+export const ERROR_HANDLER_RATE_LIMIT_MS = 5000;
+
+/**
+ * Label of the action that copies the error details to the clipboard.
+ */
+export const ERROR_HANDLER_COPY_DETAILS_LABEL = 'Copy details';
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+/**
+ * Default maximum number of dismissed toasts kept in the history.
+ */
+export const TOAST_HISTORY_MAX_ENTRIES = 50;
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * Default storage key holding persisted toasts.
+ */
+export const TOAST_PERSISTENCE_STORAGE_KEY = 'toastly:toasts';
+
+// ============================================================================
+// CROSS-TAB SYNC
+// ============================================================================
+
+/**
+ * Default BroadcastChannel name (also the storage key of the storage event fallback).
+ */
+export const TOAST_CROSS_TAB_CHANNEL_NAME = 'toastly:sync';
+
+// ============================================================================
+// SWIPE TO DISMISS
+// ============================================================================
+
+/**
+ * Distance a pointer must move before a press becomes a drag,
+ * so that taps and clicks on the toast still work.
+ */
+export const TOAST_SWIPE_START_THRESHOLD_PX = 8;
+
+/**
+ * Distance a toast must be dragged towards its edge to be dismissed.
+ */
+export const TOAST_SWIPE_DISTANCE_THRESHOLD_PX = 80;
+
+/**
+ * Speed in pixels per millisecond of a flick that dismisses a toast at any distance.
+ */
+export const TOAST_SWIPE_VELOCITY_THRESHOLD = 0.5;
+
+/**
+ * Share of a drag away from the edge that moves the toast (rubber-banding).
+ */
+export const TOAST_SWIPE_RUBBER_BAND_FACTOR = 0.2;
+
 // ============================================================================
 // ARIA / ACCESSIBILITY
 // ============================================================================
@@ -122,4 +262,5 @@ export const TOAST_ITEM_ROLES: Readonly<Record<string, string>> = {
   success: 'status',
   warning: 'alert',
   danger: 'alert',
+  loading: 'status',
 };
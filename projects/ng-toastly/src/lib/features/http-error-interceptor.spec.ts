@@ -0,0 +1,216 @@
+/**
+ * Tests for toastlyHttpErrorInterceptor
+ *
+ * Verifies:
+ * - Danger toasts for failed requests
+ * - Status and error body mapping
+ * - Opt-out through options and HttpContext tokens
+ * - Deduplication of identical failures
+ * - Errors passed on when the toast is rejected
+ */
+
+import {
+  HttpClient,
+  HttpContext,
+  HttpErrorResponse,
+  provideHttpClient,
+  withInterceptors,
+} from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TestBed } from '@angular/core/testing';
+import { provideToastly } from '../provide-toast';
+import { ToastService } from '../services/toast.service';
+import { ToastHttpErrorOptions } from '../types/toast-http.type';
+import {
+  IGNORED_ERROR_TOAST_STATUSES,
+  SKIP_ERROR_TOAST,
+  toastlyHttpErrorInterceptor,
+  withHttpErrorToasts,
+} from './http-error-interceptor';
+
+describe('toastlyHttpErrorInterceptor', () => {
+  let http: HttpClient;
+  let httpTesting: HttpTestingController;
+  let toastService: ToastService;
+
+  function setup(options?: ToastHttpErrorOptions): void {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([toastlyHttpErrorInterceptor])),
+        provideHttpClientTesting(),
+        options ? provideToastly({}, withHttpErrorToasts(options)) : [],
+      ],
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpTesting = TestBed.inject(HttpTestingController);
+    toastService = TestBed.inject(ToastService);
+  }
+
+  function failRequest(
+    body: string | object,
+    status: number,
+    context: HttpContext = new HttpContext()
+  ): unknown {
+    let receivedError: unknown;
+    http.get('/api/projects', { context }).subscribe({ error: (error) => (receivedError = error) });
+    httpTesting.expectOne('/api/projects').flush(body, { status, statusText: 'Error' });
+    return receivedError;
+  }
+
+  afterEach(() => {
+    toastService.dismissAll();
+    httpTesting.verify();
+  });
+
+  // ==========================================================================
+  // Default Behavior Tests
+  // ==========================================================================
+
+  describe('default behavior', () => {
+    beforeEach(() => setup());
+
+    it('should show a danger toast and pass the error on', () => {
+      const error = failRequest({ message: 'Project name is taken' }, 409);
+
+      const toast = toastService.toasts()[0];
+      expect(toast.type).toBe('danger');
+      expect(toast.title).toBe('Request failed (409)');
+      expect(toast.message).toBe('Project name is taken');
+      expect(error).toBeDefined();
+    });
+
+    it('should read the message from common error body formats', () => {
+      failRequest({ detail: 'Quota exceeded' }, 429);
+      failRequest('Maintenance in progress', 503);
+
+      const messages = toastService.toasts().map((toast) => toast.message);
+      expect(messages).toContain('Quota exceeded');
+      expect(messages).toContain('Maintenance in progress');
+    });
+
+    it('should fall back to a generic message for unreadable bodies', () => {
+      failRequest('<html><body>Bad Gateway</body></html>', 502);
+
+      expect(toastService.toasts()[0].message).toBe('Something went wrong. Please try again.');
+    });
+
+    it('should not show a toast for successful requests', () => {
+      http.get('/api/projects').subscribe();
+      httpTesting.expectOne('/api/projects').flush([]);
+
+      expect(toastService.toasts().length).toBe(0);
+    });
+
+    it('should collapse identical failures into one toast', () => {
+      failRequest({ message: 'Service unavailable' }, 503);
+      failRequest({ message: 'Service unavailable' }, 503);
+      failRequest({ message: 'Service unavailable' }, 503);
+
+      expect(toastService.toasts().length).toBe(1);
+      expect(toastService.toasts()[0].repeatCount).toBe(3);
+    });
+
+    it('should pass the error on when the toast is rejected by the overflow strategy', () => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          provideHttpClient(withInterceptors([toastlyHttpErrorInterceptor])),
+          provideHttpClientTesting(),
+          provideToastly(
+            { maximumVisibleToasts: 1, overflowStrategy: 'reject' },
+            withHttpErrorToasts({ dedupe: false })
+          ),
+        ],
+      });
+      http = TestBed.inject(HttpClient);
+      httpTesting = TestBed.inject(HttpTestingController);
+      toastService = TestBed.inject(ToastService);
+
+      failRequest({}, 500);
+      const error = failRequest({}, 500);
+
+      expect(error).toBeInstanceOf(HttpErrorResponse);
+      expect(toastService.toasts().length).toBe(1);
+    });
+  });
+
+  // ==========================================================================
+  // Opt-out Tests
+  // ==========================================================================
+
+  describe('opt-out', () => {
+    it('should skip requests marked with SKIP_ERROR_TOAST', () => {
+      setup();
+
+      failRequest({}, 500, new HttpContext().set(SKIP_ERROR_TOAST, true));
+
+      expect(toastService.toasts().length).toBe(0);
+    });
+
+    it('should skip statuses ignored for a single request', () => {
+      setup();
+
+      failRequest({}, 404, new HttpContext().set(IGNORED_ERROR_TOAST_STATUSES, [404]));
+      failRequest({}, 500, new HttpContext().set(IGNORED_ERROR_TOAST_STATUSES, [404]));
+
+      expect(toastService.toasts().length).toBe(1);
+    });
+
+    it('should skip statuses ignored in the options', () => {
+      setup({ ignoredStatuses: [401] });
+
+      failRequest({}, 401);
+
+      expect(toastService.toasts().length).toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // Mapping Tests
+  // ==========================================================================
+
+  describe('mapping', () => {
+    it('should use configured status messages', () => {
+      setup({ statusMessages: { 403: { title: 'Access denied', message: 'Ask an admin.' } } });
+
+      failRequest({ message: 'Forbidden' }, 403);
+
+      const toast = toastService.toasts()[0];
+      expect(toast.title).toBe('Access denied');
+      expect(toast.message).toBe('Ask an admin.');
+    });
+
+    it('should let mapError change or drop the toast', () => {
+      setup({
+        mapError: (error, defaultToast) =>
+          error.status === 422 ? null : { ...defaultToast, title: 'Oops' },
+      });
+
+      failRequest({}, 422);
+      failRequest({}, 500);
+
+      expect(toastService.toasts().map((toast) => toast.title)).toEqual(['Oops']);
+    });
+
+    it('should apply toast options to every error toast', () => {
+      setup({ toastOptions: { position: 'top-center', durationMs: 0 } });
+
+      failRequest({}, 500);
+
+      const toast = toastService.toasts()[0];
+      expect(toast.position).toBe('top-center');
+      expect(toast.durationMs).toBe(0);
+    });
+
+    it('should keep a dedupe key set in the toast options', () => {
+      setup({ toastOptions: { dedupeKey: 'api-error' } });
+
+      failRequest({ message: 'Timeout' }, 504);
+      failRequest({ message: 'Unavailable' }, 503);
+
+      expect(toastService.toasts().length).toBe(1);
+      expect(toastService.toasts()[0].dedupeKey).toBe('api-error');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * HTTP Error Interceptor - Shows danger toasts for failed HttpClient requests.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * export const appConfig = {
+ *   providers: [
+ *     provideHttpClient(withInterceptors([toastlyHttpErrorInterceptor])),
+ *     provideToastly(
+ *       {},
+ *       withHttpErrorToasts({
+ *         statusMessages: { 403: { title: 'Access denied' } },
+ *         ignoredStatuses: [401],
+ *       })
+ *     ),
+ *   ],
+ * };
+ *
+ * // Opt a single request out
+ * http.get('/api/session', { context: new HttpContext().set(SKIP_ERROR_TOAST, true) });
+ * ```
+ */
+
+import {
+  HttpContextToken,
+  HttpErrorResponse,
+  HttpInterceptorFn,
+  HttpRequest,
+} from '@angular/common/http';
+import { inject } from '@angular/core';
+import { tap } from 'rxjs';
+import {
+  HTTP_ERROR_TOAST_DEFAULT_MESSAGE,
+  HTTP_ERROR_TOAST_DEFAULT_TITLE,
+  HTTP_ERROR_TOAST_NETWORK_MESSAGE,
+  HTTP_ERROR_TOAST_NETWORK_TITLE,
+} from '../constants/toast.constants';
+import { ToastService } from '../services/toast.service';
+import { ToastlyFeature } from '../types/toast-feature.type';
+import {
+  TOAST_HTTP_ERROR_OPTIONS,
+  ToastHttpErrorOptions,
+  ToastHttpErrorToast,
+} from '../types/toast-http.type';
+
+// ============================================================================
+// HTTP CONTEXT TOKENS
+// ============================================================================
+
+/**
+ * Set to true on a request to never show an error toast for it.
+ */
+export const SKIP_ERROR_TOAST = new HttpContextToken<boolean>(() => false);
+
+/**
+ * Status codes that do not show an error toast for a single request,
+ * e.g. a 404 that the caller handles itself.
+ */
+export const IGNORED_ERROR_TOAST_STATUSES = new HttpContextToken<readonly number[]>(() => []);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Shows a 'danger' toast for every failed request. The error is passed on unchanged.
+ * Configure it with `withHttpErrorToasts()`.
+ */
+export const toastlyHttpErrorInterceptor: HttpInterceptorFn = (request, next) => {
+  const toastService = inject(ToastService);
+  const options = inject(TOAST_HTTP_ERROR_OPTIONS, { optional: true }) ?? {};
+
+  return next(request).pipe(
+    tap({
+      error: (error: unknown) => {
+        if (!(error instanceof HttpErrorResponse) || isToastSkipped(request, error, options)) {
+          return;
+        }
+
+        const toast = buildErrorToast(error, options);
+        if (!toast) {
+          return;
+        }
+
+        try {
+          toastService.show({ ...toast, type: 'danger' });
+        } catch {
+          // Rejected by the overflow strategy; the caller still gets the HTTP error
+        }
+      },
+    })
+  );
+};
+
+/**
+ * Configures `toastlyHttpErrorInterceptor`.
+ * The interceptor itself is registered with `provideHttpClient(withInterceptors([...]))`.
+ *
+ * @param options - Status messages, ignored statuses and error mapping
+ * @returns Feature to pass to `provideToastly()`
+ */
+export function withHttpErrorToasts(
+  options: ToastHttpErrorOptions = {}
+): ToastlyFeature<'http-error-toasts'> {
+  return {
+    kind: 'http-error-toasts',
+    providers: [{ provide: TOAST_HTTP_ERROR_OPTIONS, useValue: options }],
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isToastSkipped(
+  request: HttpRequest<unknown>,
+  error: HttpErrorResponse,
+  options: ToastHttpErrorOptions
+): boolean {
+  return (
+    request.context.get(SKIP_ERROR_TOAST) ||
+    request.context.get(IGNORED_ERROR_TOAST_STATUSES).includes(error.status) ||
+    (options.ignoredStatuses ?? []).includes(error.status)
+  );
+}
+
+function buildErrorToast(
+  error: HttpErrorResponse,
+  options: ToastHttpErrorOptions
+): ToastHttpErrorToast | null {
+  const statusText = options.statusMessages?.[error.status];
+  const isNetworkError = error.status === 0;
+
+  const title =
+    statusText?.title ??
+    (isNetworkError
+      ? HTTP_ERROR_TOAST_NETWORK_TITLE
+      : `${HTTP_ERROR_TOAST_DEFAULT_TITLE} (${error.status})`);
+  const message =
+    statusText?.message ??
+    (isNetworkError
+      ? HTTP_ERROR_TOAST_NETWORK_MESSAGE
+      : (readErrorBodyMessage(error.error) ?? HTTP_ERROR_TOAST_DEFAULT_MESSAGE));
+
+  const defaultToast: ToastHttpErrorToast = {
+    ...options.toastOptions,
+    title,
+    message,
+    // Bursts of the same failure collapse into one toast with a repeat count,
+    // unless the toast options set their own key
+    dedupeKey:
+      options.toastOptions?.dedupeKey ??
+      (options.dedupe === false
+        ? undefined
+        : ['http-error', error.status, title, message].join('|')),
+  };
+
+  return options.mapError ? options.mapError(error, defaultToast) : defaultToast;
+}
+
+/**
+ * Reads a human-readable message from a string body or a body with a
+ * `message`, `detail` or `error` string (covers most API error formats).
+ */
+function readErrorBodyMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    const text = body.trim();
+    // Skip empty bodies and HTML error pages from proxies
+    return text && !text.startsWith('<') ? text : undefined;
+  }
+
+  if (typeof body !== 'object' || body === null) {
+    return undefined;
+  }
+
+  const record = body as Readonly<Record<string, unknown>>;
+  return [record['message'], record['detail'], record['error']].find(
+    (value): value is string => typeof value === 'string' && value.trim() !== ''
+  );
+}
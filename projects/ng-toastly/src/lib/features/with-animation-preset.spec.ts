@@ -0,0 +1,72 @@
+/**
+ * Tests for provideToastlyAnimations and withAnimationPreset
+ *
+ * Verifies:
+ * - Registered presets are run by AnimationService
+ * - Several registrations are combined
+ * - Registered presets replace built-in ones of the same name
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { AnimationService } from '../animations/animation.service';
+import { AnimationPresetDefinition } from '../animations/animation.types';
+import { provideToastly } from '../provide-toast';
+import { provideToastlyAnimations, withAnimationPreset } from './with-animation-preset';
+
+declare module '../animations/animation.types' {
+  interface ToastlyAnimationPresets {
+    readonly zoom: true;
+    readonly drop: true;
+  }
+}
+
+describe('animation presets', () => {
+  let element: HTMLElement;
+
+  function createPreset(): AnimationPresetDefinition {
+    return { enter: vi.fn(), leave: vi.fn() };
+  }
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    element.animate = vi.fn();
+  });
+
+  it('should run a preset registered with withAnimationPreset()', async () => {
+    const zoom = createPreset();
+    TestBed.configureTestingModule({
+      providers: [provideToastly({}, withAnimationPreset('zoom', zoom))],
+    });
+
+    await TestBed.inject(AnimationService).runEnterAnimation(element, 'top-left', 'zoom');
+
+    expect(zoom.enter).toHaveBeenCalledWith(element, 'left', 300, expect.any(String));
+  });
+
+  it('should combine presets from several registrations', async () => {
+    const zoom = createPreset();
+    const drop = createPreset();
+    TestBed.configureTestingModule({
+      providers: [provideToastlyAnimations({ zoom }), provideToastlyAnimations({ drop })],
+    });
+    const animationService = TestBed.inject(AnimationService);
+
+    await animationService.runLeaveAnimation(element, 'bottom-right', 'zoom');
+    await animationService.runLeaveAnimation(element, 'bottom-right', 'drop');
+
+    expect(zoom.leave).toHaveBeenCalledTimes(1);
+    expect(drop.leave).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace a built-in preset of the same name', async () => {
+    const fade = createPreset();
+    TestBed.configureTestingModule({
+      providers: [provideToastlyAnimations({ fade })],
+    });
+
+    await TestBed.inject(AnimationService).runEnterAnimation(element, 'bottom-right', 'fade');
+
+    expect(fade.enter).toHaveBeenCalledTimes(1);
+    expect(element.animate).not.toHaveBeenCalled();
+  });
+});
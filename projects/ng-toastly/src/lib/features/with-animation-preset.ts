@@ -0,0 +1,73 @@
+/**
+ * Animation Presets - Registers named animation presets.
+ *
+ * @example
+ * ```typescript
+ * // motion.ts
+ * declare module 'ng-toastly' {
+ *   interface ToastlyAnimationPresets {
+ *     zoom: true;
+ *   }
+ * }
+ *
+ * export const zoomAnimation: AnimationPresetDefinition = {
+ *   enter: (element, _direction, durationMs, easing) =>
+ *     element.animate([{ transform: 'scale(0.8)' }, { transform: 'scale(1)' }], {
+ *       duration: durationMs,
+ *       easing,
+ *       fill: 'forwards',
+ *     }),
+ *   leave: (element, _direction, durationMs, easing) =>
+ *     element.animate([{ opacity: 1 }, { opacity: 0 }], {
+ *       duration: durationMs,
+ *       easing,
+ *       fill: 'forwards',
+ *     }),
+ * };
+ *
+ * // app.config.ts
+ * export const appConfig = {
+ *   providers: [
+ *     provideToastly({ animationPreset: 'zoom' }, withAnimationPreset('zoom', zoomAnimation)),
+ *   ],
+ * };
+ * ```
+ */
+
+import { Provider } from '@angular/core';
+import {
+  AnimationPreset,
+  AnimationPresetDefinition,
+  AnimationPresetDefinitions,
+  TOAST_ANIMATION_PRESETS,
+} from '../animations/animation.types';
+import { ToastlyFeature } from '../types/toast-feature.type';
+
+/**
+ * Registers animation presets, e.g. a design system's motion language shared
+ * across apps. Presets replace built-in ones of the same name.
+ * Provide them where the application is bootstrapped, next to `provideToastly()`.
+ *
+ * @param presets - Preset definitions keyed by name
+ * @returns Provider to be added to application providers array
+ */
+export function provideToastlyAnimations(presets: AnimationPresetDefinitions): Provider {
+  return { provide: TOAST_ANIMATION_PRESETS, multi: true, useValue: presets };
+}
+
+/**
+ * Registers a single animation preset.
+ *
+ * @param name - Name to reference the preset by in `animationPreset`
+ * @param definition - Enter and leave animations of the preset
+ * @returns Feature to pass to `provideToastly()`
+ */
+export function withAnimationPreset(
+  name: AnimationPreset,
+  definition: AnimationPresetDefinition
+): ToastlyFeature<'animations'> {
+  return {
+    kind: 'animations',
+    providers: [provideToastlyAnimations({ [name]: definition })],
+  };
+}
@@ -0,0 +1,292 @@
+/**
+ * Tests for withCrossTabSync
+ *
+ * Verifies:
+ * - Synced toasts and their dismissals are sent to other tabs
+ * - Toasts and dismissals received from other tabs, without echoes
+ * - Storage event fallback without BroadcastChannel
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { TOAST_CROSS_TAB_CHANNEL_NAME } from '../constants/toast.constants';
+import { provideToastly } from '../provide-toast';
+import { ToastService } from '../services/toast.service';
+import { ToastGlobalConfigPartial } from '../types/toast-config.type';
+import { ToastCrossTabSyncOptions } from '../types/toast-cross-tab.type';
+import { withCrossTabSync } from './with-cross-tab-sync';
+
+/**
+ * In-memory BroadcastChannel delivering messages synchronously to the
+ * other channels with the same name, but not to the sender.
+ */
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = [];
+
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  closed = false;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown): void {
+    // Messages are structured-cloned, which fails for functions
+    const clonedData: unknown = structuredClone(data);
+
+    FakeBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name && !channel.closed)
+      .forEach((channel) => channel.onmessage?.({ data: clonedData } as MessageEvent));
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+describe('withCrossTabSync', () => {
+  let toastService: ToastService;
+  let otherTab: FakeBroadcastChannel;
+  let receivedMessages: unknown[];
+
+  function setup(options?: ToastCrossTabSyncOptions, config: ToastGlobalConfigPartial = {}): void {
+    TestBed.configureTestingModule({
+      providers: [provideToastly(config, withCrossTabSync(options))],
+    });
+    toastService = TestBed.inject(ToastService);
+  }
+
+  function remoteShown(syncId: string, message: string): object {
+    return {
+      type: 'shown',
+      sourceId: 'other-tab',
+      syncId,
+      payload: { message, type: 'info', durationMs: 0, actions: [], syncAcrossTabs: true },
+    };
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+    otherTab = new FakeBroadcastChannel(TOAST_CROSS_TAB_CHANNEL_NAME);
+    receivedMessages = [];
+    otherTab.onmessage = (event) => receivedMessages.push(event.data);
+  });
+
+  afterEach(() => {
+    toastService.dismissAll();
+    FakeBroadcastChannel.channels = [];
+    vi.unstubAllGlobals();
+  });
+
+  // ==========================================================================
+  // Sending Tests
+  // ==========================================================================
+
+  describe('sending', () => {
+    it('should send toasts marked syncAcrossTabs to other tabs', () => {
+      setup();
+
+      toastService.info('Update available', { durationMs: 0, syncAcrossTabs: true });
+      toastService.info('Saved');
+
+      expect(receivedMessages).toEqual([
+        expect.objectContaining({
+          type: 'shown',
+          payload: expect.objectContaining({ message: 'Update available' }),
+        }),
+      ]);
+    });
+
+    it('should send toasts carrying a synced tag', () => {
+      setup({ tags: ['app-update'] });
+
+      toastService.info('Update available', { tags: ['app-update'] });
+      toastService.info('Saved', { tags: ['settings'] });
+
+      expect(receivedMessages.length).toBe(1);
+    });
+
+    it('should leave out actions that have no ID', () => {
+      setup();
+
+      toastService.info('Update available', {
+        syncAcrossTabs: true,
+        actions: [
+          { id: 'reload', label: 'Reload', variant: 'primary', onClick: vi.fn() },
+          { label: 'Later', variant: 'secondary', onClick: vi.fn() },
+        ],
+      });
+
+      expect(receivedMessages[0]).toEqual(
+        expect.objectContaining({
+          payload: expect.objectContaining({
+            actions: [{ id: 'reload', label: 'Reload', variant: 'primary' }],
+          }),
+        })
+      );
+    });
+
+    it('should send dismissals by the user', () => {
+      setup();
+      const toastRef = toastService.info('Update available', { syncAcrossTabs: true });
+      const [shownMessage] = receivedMessages as { syncId: string }[];
+
+      toastService.dismiss(toastRef.id, 'user-close');
+
+      expect(receivedMessages[1]).toEqual(
+        expect.objectContaining({
+          type: 'dismissed',
+          syncId: shownMessage.syncId,
+          reason: 'user-close',
+        })
+      );
+    });
+
+    it('should not send timeouts', () => {
+      vi.useFakeTimers();
+      setup();
+      toastService.info('Update available', { durationMs: 3000, syncAcrossTabs: true });
+
+      vi.advanceTimersByTime(3000);
+
+      expect(receivedMessages.length).toBe(1);
+      vi.useRealTimers();
+    });
+  });
+
+  // ==========================================================================
+  // Receiving Tests
+  // ==========================================================================
+
+  describe('receiving', () => {
+    it('should show toasts from other tabs without sending them back', () => {
+      setup();
+
+      otherTab.postMessage(remoteShown('other-tab:1', 'Update available'));
+
+      expect(toastService.toasts()[0].message).toBe('Update available');
+      expect(receivedMessages).toEqual([]);
+    });
+
+    it('should dismiss toasts dismissed in another tab without sending it back', () => {
+      setup();
+      otherTab.postMessage(remoteShown('other-tab:1', 'Update available'));
+      const dismissedSpy = vi.fn();
+      toastService.events.subscribe(dismissedSpy);
+
+      otherTab.postMessage({
+        type: 'dismissed',
+        sourceId: 'other-tab',
+        syncId: 'other-tab:1',
+        reason: 'user-close',
+      });
+
+      expect(toastService.toasts().length).toBe(0);
+      expect(dismissedSpy).toHaveBeenCalledWith(expect.objectContaining({ reason: 'user-close' }));
+      expect(receivedMessages).toEqual([]);
+    });
+
+    it('should send a local synced toast opened by a dismissal from another tab', () => {
+      setup({}, { maximumVisibleToasts: 1 });
+      otherTab.postMessage(remoteShown('other-tab:1', 'Update available'));
+      toastService.info('Export ready', { durationMs: 0, syncAcrossTabs: true });
+      expect(receivedMessages).toEqual([]);
+
+      otherTab.postMessage({
+        type: 'dismissed',
+        sourceId: 'other-tab',
+        syncId: 'other-tab:1',
+        reason: 'user-close',
+      });
+
+      expect(toastService.visibleToasts().map((toast) => toast.message)).toEqual(['Export ready']);
+      expect(receivedMessages).toEqual([
+        expect.objectContaining({
+          type: 'shown',
+          payload: expect.objectContaining({ message: 'Export ready' }),
+        }),
+      ]);
+    });
+
+    it('should send the dismissal of a received toast back to its origin', () => {
+      setup();
+      otherTab.postMessage(remoteShown('other-tab:1', 'Update available'));
+
+      toastService.dismiss(toastService.toasts()[0].id, 'user-close');
+
+      expect(receivedMessages).toEqual([
+        expect.objectContaining({ type: 'dismissed', syncId: 'other-tab:1' }),
+      ]);
+    });
+
+    it('should connect received actions to registered handlers', () => {
+      const reload = vi.fn();
+      setup({ actions: { reload } });
+
+      otherTab.postMessage({
+        ...remoteShown('other-tab:1', 'Update available'),
+        payload: {
+          message: 'Update available',
+          actions: [{ id: 'reload', label: 'Reload', variant: 'primary' }],
+        },
+      });
+      toastService.toasts()[0].actions[0].onClick();
+
+      expect(reload).toHaveBeenCalled();
+    });
+
+    it('should ignore malformed messages', () => {
+      setup();
+
+      otherTab.postMessage({ type: 'shown', sourceId: 'other-tab' });
+      otherTab.postMessage('hello');
+
+      expect(toastService.toasts().length).toBe(0);
+    });
+
+    it('should close the channel when the application is destroyed', () => {
+      setup();
+      const [, channel] = FakeBroadcastChannel.channels;
+
+      TestBed.resetTestingModule();
+
+      expect(channel.closed).toBe(true);
+    });
+  });
+
+  // ==========================================================================
+  // Storage Fallback Tests
+  // ==========================================================================
+
+  describe('storage event fallback', () => {
+    beforeEach(() => {
+      vi.stubGlobal('BroadcastChannel', undefined);
+    });
+
+    it('should send messages through localStorage', () => {
+      const setItemSpy = vi.spyOn(Storage.prototype, 'setItem');
+      setup();
+
+      toastService.info('Update available', { syncAcrossTabs: true });
+
+      expect(setItemSpy).toHaveBeenCalledWith(
+        TOAST_CROSS_TAB_CHANNEL_NAME,
+        expect.stringContaining('Update available')
+      );
+      expect(localStorage.getItem(TOAST_CROSS_TAB_CHANNEL_NAME)).toBeNull();
+      setItemSpy.mockRestore();
+    });
+
+    it('should receive messages from storage events', () => {
+      setup();
+
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: TOAST_CROSS_TAB_CHANNEL_NAME,
+          newValue: JSON.stringify(remoteShown('other-tab:1', 'Update available')),
+        })
+      );
+
+      expect(toastService.toasts()[0].message).toBe('Update available');
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Cross-tab sync feature for `provideToastly()`.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * export const appConfig = {
+ *   providers: [
+ *     provideToastly({}, withCrossTabSync({ tags: ['app-update'] })),
+ *   ],
+ * };
+ *
+ * // Shown in every open tab; closing it in one tab closes it everywhere
+ * toastService.info('A new version is available', { durationMs: 0, tags: ['app-update'] });
+ * ```
+ */
+
+import { ENVIRONMENT_INITIALIZER, inject } from '@angular/core';
+import { ToastCrossTabSyncService } from '../services/toast-cross-tab-sync.service';
+import {
+  TOAST_CROSS_TAB_SYNC_OPTIONS,
+  ToastCrossTabSyncOptions,
+} from '../types/toast-cross-tab.type';
+import { ToastlyFeature } from '../types/toast-feature.type';
+
+/**
+ * Mirrors toasts marked `syncAcrossTabs` (or carrying one of `tags`) and
+ * their dismissals between the open tabs of the application.
+ *
+ * @param options - Channel name, synced tags and action handlers
+ * @returns Feature to pass to `provideToastly()`
+ */
+export function withCrossTabSync(
+  options: ToastCrossTabSyncOptions = {}
+): ToastlyFeature<'cross-tab-sync'> {
+  return {
+    kind: 'cross-tab-sync',
+    providers: [
+      { provide: TOAST_CROSS_TAB_SYNC_OPTIONS, useValue: options },
+      ToastCrossTabSyncService,
+      // Listen to other tabs from application start
+      {
+        provide: ENVIRONMENT_INITIALIZER,
+        multi: true,
+        useValue: () => inject(ToastCrossTabSyncService),
+      },
+    ],
+  };
+}
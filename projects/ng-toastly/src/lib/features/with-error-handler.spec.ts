@@ -0,0 +1,154 @@
+/**
+ * Tests for withErrorHandler
+ *
+ * Verifies:
+ * - Error toasts for uncaught errors, with console logging kept
+ * - Message resolution, filtering and rate limiting
+ * - "Copy details" action
+ */
+
+import { ErrorHandler } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideToastly } from '../provide-toast';
+import { ToastErrorHandler } from '../services/toast-error-handler';
+import { ToastService } from '../services/toast.service';
+import { ToastErrorHandlerOptions } from '../types/toast-error-handler.type';
+import { withErrorHandler } from './with-error-handler';
+
+describe('withErrorHandler', () => {
+  let errorHandler: ErrorHandler;
+  let toastService: ToastService;
+  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+
+  function setup(options?: ToastErrorHandlerOptions): void {
+    TestBed.configureTestingModule({
+      providers: [provideToastly({}, withErrorHandler(options))],
+    });
+
+    errorHandler = TestBed.inject(ErrorHandler);
+    toastService = TestBed.inject(ToastService);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    toastService.dismissAll();
+    consoleErrorSpy.mockRestore();
+    vi.useRealTimers();
+  });
+
+  // ==========================================================================
+  // Default Behavior Tests
+  // ==========================================================================
+
+  describe('default behavior', () => {
+    beforeEach(() => setup());
+
+    it('should replace the ErrorHandler', () => {
+      expect(errorHandler).toBeInstanceOf(ToastErrorHandler);
+    });
+
+    it('should show a dismissible danger toast and still log the error', () => {
+      errorHandler.handleError(new Error('Cannot read properties of undefined'));
+
+      const toast = toastService.toasts()[0];
+      expect(toast.type).toBe('danger');
+      expect(toast.title).toBe('Unexpected error');
+      expect(toast.message).toBe('Cannot read properties of undefined');
+      expect(toast.dismissible).toBe(true);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+
+    it('should unwrap unhandled promise rejections', () => {
+      errorHandler.handleError({ rejection: new Error('Request timed out') });
+
+      expect(toastService.toasts()[0].message).toBe('Request timed out');
+    });
+
+    it('should fall back to a generic message', () => {
+      errorHandler.handleError({ code: 42 });
+
+      expect(toastService.toasts()[0].message).toBe('Something went wrong.');
+    });
+
+    it('should show at most one toast within the rate limit', () => {
+      errorHandler.handleError(new Error('First'));
+      errorHandler.handleError(new Error('Second'));
+
+      expect(toastService.toasts().length).toBe(1);
+      expect(consoleErrorSpy).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(5000);
+      errorHandler.handleError(new Error('Third'));
+
+      expect(toastService.toasts().map((toast) => toast.message)).toContain('Third');
+    });
+
+    it('should copy the error details to the clipboard', () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      vi.stubGlobal('navigator', { clipboard: { writeText } });
+      const error = new Error('Broken');
+
+      errorHandler.handleError(error);
+      const copyAction = toastService.toasts()[0].actions[0];
+      copyAction.onClick();
+
+      expect(copyAction.label).toBe('Copy details');
+      expect(writeText).toHaveBeenCalledWith(error.stack);
+      vi.unstubAllGlobals();
+    });
+  });
+
+  // ==========================================================================
+  // Options Tests
+  // ==========================================================================
+
+  describe('options', () => {
+    it('should use a configured title and message', () => {
+      setup({ title: 'Oops', message: (error) => `Failed: ${String(error)}` });
+
+      errorHandler.handleError('disk full');
+
+      const toast = toastService.toasts()[0];
+      expect(toast.title).toBe('Oops');
+      expect(toast.message).toBe('Failed: disk full');
+    });
+
+    it('should skip errors rejected by the filter but still log them', () => {
+      setup({ filter: (error) => !(error instanceof TypeError) });
+
+      errorHandler.handleError(new TypeError('ignored'));
+
+      expect(toastService.toasts().length).toBe(0);
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+
+    it('should respect a custom rate limit', () => {
+      setup({ rateLimitMs: 0 });
+
+      errorHandler.handleError(new Error('First'));
+      errorHandler.handleError(new Error('Second'));
+
+      expect(toastService.toasts().length).toBe(2);
+    });
+
+    it('should leave out the copy action when disabled', () => {
+      setup({ showCopyDetails: false });
+
+      errorHandler.handleError(new Error('Broken'));
+
+      expect(toastService.toasts()[0].actions).toEqual([]);
+    });
+
+    it('should show toasts in dev mode when devModeOnly is set', () => {
+      setup({ devModeOnly: true });
+
+      errorHandler.handleError(new Error('Broken'));
+
+      expect(toastService.toasts().length).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Error handler feature for `provideToastly()`.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * export const appConfig = {
+ *   providers: [
+ *     provideToastly({}, withErrorHandler({ devModeOnly: true })),
+ *   ],
+ * };
+ * ```
+ */
+
+import { ErrorHandler } from '@angular/core';
+import { ToastErrorHandler } from '../services/toast-error-handler';
+import {
+  TOAST_ERROR_HANDLER_OPTIONS,
+  ToastErrorHandlerOptions,
+} from '../types/toast-error-handler.type';
+import { ToastlyFeature } from '../types/toast-feature.type';
+
+/**
+ * Replaces Angular's ErrorHandler with one that also shows uncaught errors
+ * as dismissible 'danger' toasts. Errors are still logged to the console.
+ *
+ * @param options - Message, filter, rate limit and dev-mode settings
+ * @returns Feature to pass to `provideToastly()`
+ */
+export function withErrorHandler(
+  options: ToastErrorHandlerOptions = {}
+): ToastlyFeature<'error-handler'> {
+  return {
+    kind: 'error-handler',
+    providers: [
+      { provide: TOAST_ERROR_HANDLER_OPTIONS, useValue: options },
+      { provide: ErrorHandler, useClass: ToastErrorHandler },
+    ],
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Tests for withHistory
+ *
+ * Verifies:
+ * - History recording starts with the application
+ * - Options are passed to ToastHistoryService
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { provideToastly } from '../provide-toast';
+import { ToastHistoryService } from '../services/toast-history.service';
+import { ToastService } from '../services/toast.service';
+import { withHistory } from './with-history';
+
+describe('withHistory', () => {
+  let toastService: ToastService;
+
+  afterEach(() => {
+    toastService.dismissAll();
+  });
+
+  it('should record toasts dismissed before the history is first injected', () => {
+    TestBed.configureTestingModule({
+      providers: [provideToastly({}, withHistory())],
+    });
+    toastService = TestBed.inject(ToastService);
+
+    toastService.info('Early').dismiss();
+
+    const history = TestBed.inject(ToastHistoryService);
+    expect(history.entries().map((entry) => entry.toast.message)).toEqual(['Early']);
+  });
+
+  it('should apply the history options', () => {
+    TestBed.configureTestingModule({
+      providers: [provideToastly({}, withHistory({ maxEntries: 1 }))],
+    });
+    toastService = TestBed.inject(ToastService);
+
+    toastService.info('First').dismiss();
+    toastService.info('Second').dismiss();
+
+    const history = TestBed.inject(ToastHistoryService);
+    expect(history.entries().map((entry) => entry.toast.message)).toEqual(['Second']);
+  });
+});
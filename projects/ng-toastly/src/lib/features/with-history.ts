@@ -0,0 +1,40 @@
+/**
+ * History feature for `provideToastly()`.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * export const appConfig = {
+ *   providers: [
+ *     provideToastly({}, withHistory({ maxEntries: 100 })),
+ *   ],
+ * };
+ * ```
+ */
+
+import { ENVIRONMENT_INITIALIZER, inject } from '@angular/core';
+import { ToastHistoryService } from '../services/toast-history.service';
+import { ToastlyFeature } from '../types/toast-feature.type';
+import { TOAST_HISTORY_OPTIONS, ToastHistoryOptions } from '../types/toast-history.type';
+
+/**
+ * Records dismissed toasts from application start, for
+ * `<toastly-notification-center>` or a custom inbox built on ToastHistoryService.
+ *
+ * @param options - History size and filter
+ * @returns Feature to pass to `provideToastly()`
+ */
+export function withHistory(options: ToastHistoryOptions = {}): ToastlyFeature<'history'> {
+  return {
+    kind: 'history',
+    providers: [
+      { provide: TOAST_HISTORY_OPTIONS, useValue: options },
+      // Start recording before the first toast is shown
+      {
+        provide: ENVIRONMENT_INITIALIZER,
+        multi: true,
+        useValue: () => inject(ToastHistoryService),
+      },
+    ],
+  };
+}
@@ -0,0 +1,207 @@
+/**
+ * Tests for withPersistence
+ *
+ * Verifies:
+ * - Only toasts marked `persist` are written to storage
+ * - Restoring after a reload, with the remaining duration
+ * - Action handlers looked up by action ID
+ * - Storage options and corrupted storage
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { TOAST_PERSISTENCE_STORAGE_KEY } from '../constants/toast.constants';
+import { provideToastly } from '../provide-toast';
+import { ToastService } from '../services/toast.service';
+import { ToastPersistenceOptions, ToastStorageAdapter } from '../types/toast-persistence.type';
+import { withPersistence } from './with-persistence';
+
+function createStorage(): ToastStorageAdapter & { readonly values: Map<string, string> } {
+  const values = new Map<string, string>();
+
+  return {
+    values,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => values.set(key, value),
+    removeItem: (key) => values.delete(key),
+  };
+}
+
+describe('withPersistence', () => {
+  let storage: ReturnType<typeof createStorage>;
+  let toastService: ToastService;
+
+  function startApp(options: ToastPersistenceOptions = {}): void {
+    TestBed.configureTestingModule({
+      providers: [provideToastly({}, withPersistence({ storage, ...options }))],
+    });
+    toastService = TestBed.inject(ToastService);
+  }
+
+  /**
+   * Simulates a page reload: the app is destroyed and started again after `elapsedMs`.
+   */
+  function reload(options: ToastPersistenceOptions = {}, elapsedMs = 0): void {
+    TestBed.resetTestingModule();
+    vi.setSystemTime(Date.now() + elapsedMs);
+    startApp(options);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createStorage();
+  });
+
+  afterEach(() => {
+    toastService.dismissAll();
+    vi.useRealTimers();
+  });
+
+  // ==========================================================================
+  // Saving Tests
+  // ==========================================================================
+
+  describe('saving', () => {
+    beforeEach(() => startApp());
+
+    it('should only store toasts marked persist', () => {
+      toastService.info('Export in progress', { durationMs: 0, persist: true });
+      toastService.info('Saved');
+
+      const stored = storage.getItem(TOAST_PERSISTENCE_STORAGE_KEY)!;
+      expect(stored).toContain('Export in progress');
+      expect(stored).not.toContain('Saved');
+    });
+
+    it('should remove the stored entry once no persisted toasts are left', () => {
+      toastService.info('Export in progress', { durationMs: 0, persist: true }).dismiss();
+
+      expect(storage.values.has(TOAST_PERSISTENCE_STORAGE_KEY)).toBe(false);
+    });
+
+    it('should store updates to persisted toasts', () => {
+      const toastRef = toastService.info('Exporting', { durationMs: 0, persist: true });
+
+      toastRef.update({ message: 'Export 50% done' });
+
+      expect(storage.getItem(TOAST_PERSISTENCE_STORAGE_KEY)).toContain('Export 50% done');
+    });
+  });
+
+  // ==========================================================================
+  // Restoring Tests
+  // ==========================================================================
+
+  describe('restoring', () => {
+    it('should restore persisted toasts after a reload', () => {
+      startApp();
+      toastService.show({
+        message: 'Export in progress',
+        title: 'Reports',
+        type: 'loading',
+        durationMs: 0,
+        persist: true,
+        group: 'exports',
+      });
+
+      reload();
+
+      const [toast] = toastService.toasts();
+      expect(toastService.toasts().length).toBe(1);
+      expect(toast.message).toBe('Export in progress');
+      expect(toast.title).toBe('Reports');
+      expect(toast.type).toBe('loading');
+      expect(toast.durationMs).toBe(0);
+      expect(toast.group).toBe('exports');
+      expect(toast.persist).toBe(true);
+    });
+
+    it('should continue the countdown with the time that was left', () => {
+      startApp();
+      toastService.info('Uploaded', { durationMs: 10000, persist: true });
+      vi.advanceTimersByTime(4000);
+
+      reload({}, 1000);
+
+      expect(toastService.toasts()[0].durationMs).toBe(5000);
+      vi.advanceTimersByTime(5000);
+      expect(toastService.toasts().length).toBe(0);
+    });
+
+    it('should not restore toasts that expired while the page was closed', () => {
+      startApp();
+      toastService.info('Uploaded', { durationMs: 5000, persist: true });
+
+      reload({}, 6000);
+
+      expect(toastService.toasts().length).toBe(0);
+    });
+
+    it('should ignore corrupted storage', () => {
+      storage.setItem(TOAST_PERSISTENCE_STORAGE_KEY, '{not json');
+
+      expect(() => startApp()).not.toThrow();
+      expect(toastService.toasts().length).toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // Action Tests
+  // ==========================================================================
+
+  describe('actions', () => {
+    it('should reconnect restored actions to their registered handlers', () => {
+      const openExports = vi.fn();
+      startApp();
+      toastService.info('Export in progress', {
+        durationMs: 0,
+        persist: true,
+        actions: [
+          { id: 'open-exports', label: 'View', variant: 'primary', onClick: openExports },
+          { id: 'unknown', label: 'Cancel', variant: 'secondary', onClick: vi.fn() },
+          { label: 'Hide', variant: 'secondary', onClick: vi.fn() },
+        ],
+      });
+
+      const restoredHandler = vi.fn();
+      reload({ actions: { 'open-exports': restoredHandler } });
+
+      const { actions } = toastService.toasts()[0];
+      expect(actions.map((action) => action.label)).toEqual(['View']);
+
+      actions[0].onClick();
+      expect(restoredHandler).toHaveBeenCalled();
+      expect(openExports).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // Storage Option Tests
+  // ==========================================================================
+
+  describe('storage options', () => {
+    it('should use a custom storage key', () => {
+      startApp({ storageKey: 'app:toasts' });
+
+      toastService.info('Export in progress', { durationMs: 0, persist: true });
+
+      expect(storage.values.has('app:toasts')).toBe(true);
+      expect(storage.values.has(TOAST_PERSISTENCE_STORAGE_KEY)).toBe(false);
+    });
+
+    it('should use sessionStorage by default', () => {
+      TestBed.configureTestingModule({
+        providers: [provideToastly({}, withPersistence())],
+      });
+      toastService = TestBed.inject(ToastService);
+
+      toastService.info('Export in progress', { durationMs: 0, persist: true });
+
+      expect(sessionStorage.getItem(TOAST_PERSISTENCE_STORAGE_KEY)).toContain(
+        'Export in progress'
+      );
+      expect(localStorage.getItem(TOAST_PERSISTENCE_STORAGE_KEY)).toBeNull();
+      toastService.dismissAll();
+      expect(sessionStorage.getItem(TOAST_PERSISTENCE_STORAGE_KEY)).toBeNull();
+    });
+  });
+});
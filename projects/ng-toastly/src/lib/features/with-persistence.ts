@@ -0,0 +1,61 @@
+/**
+ * Persistence feature for `provideToastly()`.
+ *
+ * @example
+ * ```typescript
+ * // app.config.ts
+ * export const appConfig = {
+ *   providers: [
+ *     provideToastly(
+ *       {},
+ *       withPersistence({
+ *         storage: 'session',
+ *         actions: { 'open-exports': () => inject(Router).navigate(['/exports']) },
+ *       })
+ *     ),
+ *   ],
+ * };
+ *
+ * // Survives a reload until the export finishes
+ * toastService.show({
+ *   message: 'Export in progress',
+ *   type: 'loading',
+ *   durationMs: 0,
+ *   persist: true,
+ *   actions: [{ id: 'open-exports', label: 'View', variant: 'primary', onClick: openExports }],
+ * });
+ * ```
+ */
+
+import { ENVIRONMENT_INITIALIZER, inject } from '@angular/core';
+import { ToastPersistenceService } from '../services/toast-persistence.service';
+import { ToastlyFeature } from '../types/toast-feature.type';
+import {
+  TOAST_PERSISTENCE_OPTIONS,
+  ToastPersistenceOptions,
+} from '../types/toast-persistence.type';
+
+/**
+ * Restores toasts marked `persist: true` after a page reload, with the time
+ * they had left.
+ *
+ * @param options - Storage and action handlers for restored toasts
+ * @returns Feature to pass to `provideToastly()`
+ */
+export function withPersistence(
+  options: ToastPersistenceOptions = {}
+): ToastlyFeature<'persistence'> {
+  return {
+    kind: 'persistence',
+    providers: [
+      { provide: TOAST_PERSISTENCE_OPTIONS, useValue: options },
+      ToastPersistenceService,
+      // Restore toasts as soon as the application starts
+      {
+        provide: ENVIRONMENT_INITIALIZER,
+        multi: true,
+        useValue: () => inject(ToastPersistenceService),
+      },
+    ],
+  };
+}
@@ -5,6 +5,7 @@
  * - Correct Provider structure returned
  * - Default config handling
  * - Partial config override
+ * - Feature providers
  */
 
 import { TestBed } from '@angular/core/testing';
@@ -83,6 +84,13 @@ describe('provideToastly', () => {
       expect(provider.useValue.maximumVisibleToasts).toBe(10);
     });
 
+    it('should pass through overflowStrategy config', () => {
+      const config: ToastGlobalConfigPartial = { overflowStrategy: 'evict-oldest' };
+      const provider = provideToastly(config) as { provide: unknown; useValue: ToastGlobalConfigPartial };
+
+      expect(provider.useValue.overflowStrategy).toBe('evict-oldest');
+    });
+
     it('should pass through newestOnTop config', () => {
       const config: ToastGlobalConfigPartial = { newestOnTop: false };
       const provider = provideToastly(config) as { provide: unknown; useValue: ToastGlobalConfigPartial };
@@ -124,6 +132,22 @@ describe('provideToastly', () => {
     });
   });
 
+  // ==========================================================================
+  // Feature Tests
+  // ==========================================================================
+
+  describe('features', () => {
+    it('should add the providers of each feature after the config provider', () => {
+      const featureProvider = { provide: 'FEATURE', useValue: true };
+      const providers = provideToastly({}, { kind: 'router', providers: [featureProvider] });
+
+      expect(providers).toEqual([
+        { provide: TOAST_GLOBAL_CONFIG, useValue: {} },
+        featureProvider,
+      ]);
+    });
+  });
+
   // ==========================================================================
   // Integration Tests
   // ==========================================================================
@@ -7,6 +7,7 @@
  * ```typescript
  * // app.config.ts
  * import { provideToastly } from 'ng-toastly';
+ * import { withRouter } from 'ng-toastly/router';
  *
  * export const appConfig = {
  *   providers: [
@@ -14,7 +15,7 @@
  *       position: 'top-right',
  *       theme: 'dark',
  *       defaultDurationMs: 3000,
- *     }),
+ *     }, withRouter()),
  *   ],
  * };
  * ```
@@ -22,16 +23,27 @@
 
 import { Provider } from '@angular/core';
 import { TOAST_GLOBAL_CONFIG, ToastGlobalConfigPartial } from './types/toast-config.type';
+import { ToastlyFeature } from './types/toast-feature.type';
 
 /**
  * Provides global configuration for Toastly notifications.
  *
  * @param config - Partial configuration to override defaults
+ * @param features - Optional features, e.g. `withRouter()`
  * @returns Provider to be added to application providers array
  */
-export function provideToastly(config: ToastGlobalConfigPartial = {}): Provider {
-  return {
+export function provideToastly(
+  config: ToastGlobalConfigPartial = {},
+  ...features: ToastlyFeature[]
+): Provider {
+  const configProvider: Provider = {
     provide: TOAST_GLOBAL_CONFIG,
     useValue: config,
   };
+
+  if (features.length === 0) {
+    return configProvider;
+  }
+
+  return [configProvider, ...features.flatMap((feature) => feature.providers)];
 }
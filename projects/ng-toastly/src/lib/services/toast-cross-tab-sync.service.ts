@@ -0,0 +1,268 @@
+/**
+ * Toast Cross-Tab Sync Service - Mirrors toasts between browser tabs.
+ *
+ * Registered by `withCrossTabSync()`. This service:
+ * - Sends toasts marked `syncAcrossTabs` (or carrying a synced tag) to the other tabs
+ * - Dismisses every copy when one of them is dismissed by the user or the app
+ *
+ * Messages go over BroadcastChannel, or `storage` events where it is not
+ * available. Timeouts, evictions and navigation dismissals happen per tab
+ * and are not synced.
+ */
+
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { DestroyRef, EnvironmentInjector, inject, Injectable, PLATFORM_ID } from '@angular/core';
+import { TOAST_CROSS_TAB_CHANNEL_NAME } from '../constants/toast.constants';
+import { TOAST_CROSS_TAB_SYNC_OPTIONS } from '../types/toast-cross-tab.type';
+import { Toast, ToastDismissReason, ToastEvent } from '../types/toast.type';
+import {
+  isSerializableToast,
+  isSerializedToastPayload,
+  restoreToastActions,
+  SerializedToastPayload,
+  serializeToast,
+} from '../utils/toast-serialization';
+import { ToastService } from './toast.service';
+
+/**
+ * Message exchanged between tabs.
+ */
+type CrossTabMessage =
+  | {
+      readonly type: 'shown';
+      readonly sourceId: string;
+      readonly syncId: string;
+      readonly payload: SerializedToastPayload;
+    }
+  | {
+      readonly type: 'dismissed';
+      readonly sourceId: string;
+      readonly syncId: string;
+      readonly reason: ToastDismissReason;
+    };
+
+/**
+ * Sends messages to the other tabs.
+ */
+interface CrossTabTransport {
+  post(message: CrossTabMessage): void;
+  close(): void;
+}
+
+/**
+ * Dismissals that apply to every tab; the others only concern the tab they happen in.
+ */
+const SYNCED_DISMISS_REASONS: ReadonlySet<ToastDismissReason> = new Set([
+  'user-close',
+  'action',
+  'programmatic',
+  'swipe',
+]);
+
+@Injectable()
+export class ToastCrossTabSyncService {
+  private readonly toastService = inject(ToastService);
+  private readonly injector = inject(EnvironmentInjector);
+  private readonly options = inject(TOAST_CROSS_TAB_SYNC_OPTIONS, { optional: true }) ?? {};
+
+  /**
+   * Identifies this tab, so that its own messages are ignored.
+   */
+  private readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  /**
+   * IDs shared by all copies of the synced toasts in this tab.
+   * Key: local toast ID, Value: sync ID
+   */
+  private readonly syncIds = new Map<string, string>();
+
+  /**
+   * Toasts shown while a toast from another tab is being shown, or null.
+   * The received toast is only known once `show()` returns: it must not be
+   * sent back, while any other toast opened meanwhile is sent as usual.
+   */
+  private toastsShownDuringRemoteShow: Toast[] | null = null;
+
+  private readonly transport: CrossTabTransport = isPlatformBrowser(inject(PLATFORM_ID))
+    ? createTransport(
+        inject(DOCUMENT).defaultView,
+        this.options.channelName ?? TOAST_CROSS_TAB_CHANNEL_NAME,
+        (message) => this.handleMessage(message)
+      )
+    : { post: () => undefined, close: () => undefined };
+
+  constructor() {
+    const subscription = this.toastService.events.subscribe((event) => this.handleEvent(event));
+
+    inject(DestroyRef).onDestroy(() => {
+      subscription.unsubscribe();
+      this.transport.close();
+    });
+  }
+
+  // ==========================================================================
+  // PRIVATE - Sending
+  // ==========================================================================
+
+  private handleEvent(event: ToastEvent): void {
+    if (event.type === 'shown') {
+      if (this.toastsShownDuringRemoteShow) {
+        this.toastsShownDuringRemoteShow.push(event.toast);
+      } else {
+        this.sendShown(event.toast);
+      }
+    } else if (event.type === 'dismissed') {
+      this.sendDismissed(event.toast, event.reason);
+    }
+  }
+
+  private sendShown(toast: Toast): void {
+    // Toasts received from other tabs already have a sync ID
+    if (this.syncIds.has(toast.id) || !this.isSynced(toast)) {
+      return;
+    }
+
+    const syncId = `${this.tabId}:${toast.id}`;
+    this.syncIds.set(toast.id, syncId);
+    this.transport.post({
+      type: 'shown',
+      sourceId: this.tabId,
+      syncId,
+      payload: serializeToast(toast),
+    });
+  }
+
+  private sendDismissed(toast: Toast, reason: ToastDismissReason): void {
+    const syncId = this.syncIds.get(toast.id);
+    this.syncIds.delete(toast.id);
+
+    if (syncId !== undefined && SYNCED_DISMISS_REASONS.has(reason)) {
+      this.transport.post({ type: 'dismissed', sourceId: this.tabId, syncId, reason });
+    }
+  }
+
+  private isSynced(toast: Toast): boolean {
+    const syncedTags = this.options.tags ?? [];
+    const hasSyncedTag = toast.tags?.some((tag) => syncedTags.includes(tag)) ?? false;
+
+    return (toast.syncAcrossTabs === true || hasSyncedTag) && isSerializableToast(toast);
+  }
+
+  // ==========================================================================
+  // PRIVATE - Receiving
+  // ==========================================================================
+
+  private handleMessage(message: unknown): void {
+    if (!isCrossTabMessage(message) || message.sourceId === this.tabId) {
+      return;
+    }
+
+    if (message.type === 'shown') {
+      this.showRemoteToast(message.syncId, message.payload);
+    } else {
+      this.dismissRemoteToast(message.syncId, message.reason);
+    }
+  }
+
+  private showRemoteToast(syncId: string, payload: SerializedToastPayload): void {
+    let remoteToastId: string | undefined;
+
+    this.toastsShownDuringRemoteShow = [];
+    try {
+      remoteToastId = this.toastService.show({
+        ...payload,
+        actions: restoreToastActions(payload.actions, this.options.actions, this.injector),
+      }).id;
+
+      // A duplicate of a local toast keeps its own sync ID
+      if (!this.syncIds.has(remoteToastId)) {
+        this.syncIds.set(remoteToastId, syncId);
+      }
+    } catch {
+      // Rejected by the overflow strategy of this tab
+    } finally {
+      const shownToasts = this.toastsShownDuringRemoteShow;
+      this.toastsShownDuringRemoteShow = null;
+
+      shownToasts
+        .filter((toast) => toast.id !== remoteToastId)
+        .forEach((toast) => this.sendShown(toast));
+    }
+  }
+
+  private dismissRemoteToast(syncId: string, reason: ToastDismissReason): void {
+    for (const [toastId, toastSyncId] of this.syncIds) {
+      if (toastSyncId === syncId) {
+        // Forgotten first, so that the dismissal is not sent back
+        this.syncIds.delete(toastId);
+        this.toastService.dismiss(toastId, reason);
+        return;
+      }
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createTransport(
+  window: Window | null,
+  channelName: string,
+  onMessage: (message: unknown) => void
+): CrossTabTransport {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (event: MessageEvent) => onMessage(event.data);
+
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const handleStorage = (event: StorageEvent): void => {
+    if (event.key === channelName && event.newValue) {
+      onMessage(parseMessage(event.newValue));
+    }
+  };
+  window?.addEventListener('storage', handleStorage);
+
+  return {
+    post: (message) => {
+      try {
+        // Storage events only fire in the other tabs; removing the item right away
+        // makes the next identical message a change again
+        window?.localStorage.setItem(channelName, JSON.stringify(message));
+        window?.localStorage.removeItem(channelName);
+      } catch {
+        // Storage is unavailable; the toast stays in this tab
+      }
+    },
+    close: () => window?.removeEventListener('storage', handleStorage),
+  };
+}
+
+function parseMessage(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+function isCrossTabMessage(message: unknown): message is CrossTabMessage {
+  if (typeof message !== 'object' || message === null) {
+    return false;
+  }
+
+  const { type, sourceId, syncId } = message as Partial<Record<string, unknown>>;
+  if (typeof sourceId !== 'string' || typeof syncId !== 'string') {
+    return false;
+  }
+
+  return (
+    (type === 'shown' && isSerializedToastPayload((message as { payload?: unknown }).payload)) ||
+    (type === 'dismissed' && typeof (message as { reason?: unknown }).reason === 'string')
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * Toast Error Handler - Angular ErrorHandler that also shows uncaught errors as toasts.
+ *
+ * Registered by `withErrorHandler()`. Every error is still logged by the
+ * default ErrorHandler; the toast is shown on top of that, subject to the
+ * filter, rate limit and dev-mode settings.
+ */
+
+import { ErrorHandler, inject, Injectable, isDevMode } from '@angular/core';
+import {
+  ERROR_HANDLER_COPY_DETAILS_LABEL,
+  ERROR_HANDLER_RATE_LIMIT_MS,
+  ERROR_HANDLER_TOAST_DEFAULT_MESSAGE,
+  ERROR_HANDLER_TOAST_DEFAULT_TITLE,
+} from '../constants/toast.constants';
+import { TOAST_ERROR_HANDLER_OPTIONS } from '../types/toast-error-handler.type';
+import { ToastAction } from '../types/toast.type';
+import { ToastService } from './toast.service';
+
+@Injectable()
+export class ToastErrorHandler extends ErrorHandler {
+  private readonly toastService = inject(ToastService);
+  private readonly options = inject(TOAST_ERROR_HANDLER_OPTIONS, { optional: true }) ?? {};
+
+  /**
+   * Time the last error toast was shown, for rate limiting.
+   */
+  private lastToastShownAt: number | null = null;
+
+  override handleError(error: unknown): void {
+    super.handleError(error);
+
+    try {
+      this.showErrorToast(error);
+    } catch {
+      // Never let the toast itself cause another uncaught error
+    }
+  }
+
+  // ==========================================================================
+  // PRIVATE - Toast Display
+  // ==========================================================================
+
+  private showErrorToast(error: unknown): void {
+    if (!this.shouldShowToast(error)) {
+      return;
+    }
+
+    this.lastToastShownAt = Date.now();
+
+    const showCopyDetails = this.options.showCopyDetails ?? true;
+    this.toastService.show({
+      ...this.options.toastOptions,
+      type: 'danger',
+      title: this.options.title ?? ERROR_HANDLER_TOAST_DEFAULT_TITLE,
+      message: this.resolveMessage(error),
+      dismissible: true,
+      actions: showCopyDetails ? [this.createCopyDetailsAction(error)] : [],
+    });
+  }
+
+  private shouldShowToast(error: unknown): boolean {
+    if (this.options.devModeOnly && !isDevMode()) {
+      return false;
+    }
+
+    if (this.options.filter && !this.options.filter(error)) {
+      return false;
+    }
+
+    const rateLimitMs = this.options.rateLimitMs ?? ERROR_HANDLER_RATE_LIMIT_MS;
+    return this.lastToastShownAt === null || Date.now() - this.lastToastShownAt >= rateLimitMs;
+  }
+
+  private resolveMessage(error: unknown): string {
+    const { message } = this.options;
+
+    if (typeof message === 'string') {
+      return message;
+    }
+
+    if (message) {
+      return message(error);
+    }
+
+    const cause = unwrapError(error);
+    if (cause instanceof Error && cause.message) {
+      return cause.message;
+    }
+
+    return typeof cause === 'string' && cause ? cause : ERROR_HANDLER_TOAST_DEFAULT_MESSAGE;
+  }
+
+  private createCopyDetailsAction(error: unknown): ToastAction {
+    const cause = unwrapError(error);
+    const details = cause instanceof Error ? (cause.stack ?? String(cause)) : String(cause);
+
+    return {
+      label: ERROR_HANDLER_COPY_DETAILS_LABEL,
+      variant: 'secondary',
+      onClick: () => {
+        navigator.clipboard?.writeText(details).catch(() => {
+          // Clipboard access can be denied; nothing else to do
+        });
+      },
+    };
+  }
+}
+
+/**
+ * Returns the rejection reason of unhandled promise rejections,
+ * which Angular wraps before passing them to the ErrorHandler.
+ */
+function unwrapError(error: unknown): unknown {
+  if (typeof error === 'object' && error !== null && 'rejection' in error) {
+    return (error as { readonly rejection: unknown }).rejection;
+  }
+
+  return error;
+}
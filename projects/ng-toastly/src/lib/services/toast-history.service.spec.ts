@@ -0,0 +1,156 @@
+/**
+ * Tests for ToastHistoryService
+ *
+ * Verifies:
+ * - Recording of dismissed toasts, newest first
+ * - Read state and unread count
+ * - Entry removal, size limit and filtering
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { ToastHistoryService } from './toast-history.service';
+import { ToastService } from './toast.service';
+import { TOAST_HISTORY_OPTIONS, ToastHistoryOptions } from '../types/toast-history.type';
+
+describe('ToastHistoryService', () => {
+  let history: ToastHistoryService;
+  let toastService: ToastService;
+
+  function setup(options?: ToastHistoryOptions): void {
+    TestBed.configureTestingModule({
+      providers: options ? [{ provide: TOAST_HISTORY_OPTIONS, useValue: options }] : [],
+    });
+
+    history = TestBed.inject(ToastHistoryService);
+    toastService = TestBed.inject(ToastService);
+  }
+
+  afterEach(() => {
+    toastService.dismissAll();
+  });
+
+  // ==========================================================================
+  // Recording Tests
+  // ==========================================================================
+
+  describe('recording', () => {
+    beforeEach(() => setup());
+
+    it('should start empty', () => {
+      expect(history.entries()).toEqual([]);
+      expect(history.unreadCount()).toBe(0);
+    });
+
+    it('should record dismissed toasts, newest first', () => {
+      const first = toastService.info('First');
+      const second = toastService.success('Second');
+
+      first.dismiss();
+      second.dismiss();
+
+      expect(history.entries().map((entry) => entry.toast.message)).toEqual(['Second', 'First']);
+      expect(history.entries()[0].reason).toBe('programmatic');
+    });
+
+    it('should not record toasts that are still visible', () => {
+      toastService.info('Still here');
+
+      expect(history.entries()).toEqual([]);
+    });
+
+    it('should record timed out toasts as unread', () => {
+      vi.useFakeTimers();
+      toastService.info('Saved', { durationMs: 2000 });
+
+      vi.advanceTimersByTime(2000);
+
+      expect(history.entries()[0].reason).toBe('timeout');
+      expect(history.unreadCount()).toBe(1);
+      vi.useRealTimers();
+    });
+
+    it('should record toasts the user closed as read', () => {
+      const toastRef = toastService.info('Seen');
+
+      toastService.dismiss(toastRef.id, 'user-close');
+
+      expect(history.entries()[0].read).toBe(true);
+      expect(history.unreadCount()).toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // Read State Tests
+  // ==========================================================================
+
+  describe('read state', () => {
+    beforeEach(() => {
+      setup();
+      toastService.info('First').dismiss();
+      toastService.info('Second').dismiss();
+    });
+
+    it('should mark a single entry as read', () => {
+      history.markAsRead(history.entries()[0].id);
+
+      expect(history.entries()[0].read).toBe(true);
+      expect(history.entries()[1].read).toBe(false);
+      expect(history.unreadCount()).toBe(1);
+    });
+
+    it('should mark all entries as read', () => {
+      history.markAllAsRead();
+
+      expect(history.unreadCount()).toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // Removal Tests
+  // ==========================================================================
+
+  describe('removal', () => {
+    beforeEach(() => {
+      setup();
+      toastService.info('First').dismiss();
+      toastService.info('Second').dismiss();
+    });
+
+    it('should remove a single entry', () => {
+      history.remove(history.entries()[0].id);
+
+      expect(history.entries().map((entry) => entry.toast.message)).toEqual(['First']);
+    });
+
+    it('should clear all entries', () => {
+      history.clear();
+
+      expect(history.entries()).toEqual([]);
+    });
+  });
+
+  // ==========================================================================
+  // Options Tests
+  // ==========================================================================
+
+  describe('options', () => {
+    it('should drop the oldest entries beyond maxEntries', () => {
+      setup({ maxEntries: 2 });
+
+      toastService.info('First').dismiss();
+      toastService.info('Second').dismiss();
+      toastService.info('Third').dismiss();
+
+      expect(history.entries().map((entry) => entry.toast.message)).toEqual(['Third', 'Second']);
+    });
+
+    it('should skip toasts rejected by the filter', () => {
+      setup({ filter: (toast) => toast.type !== 'success' });
+
+      toastService.success('Saved').dismiss();
+      toastService.danger('Failed').dismiss();
+
+      expect(history.entries().map((entry) => entry.toast.message)).toEqual(['Failed']);
+    });
+  });
+});
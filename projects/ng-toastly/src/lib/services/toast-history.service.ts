@@ -0,0 +1,110 @@
+/**
+ * Toast History Service - Keeps dismissed toasts so they can be read later.
+ *
+ * Records every dismissed toast with its dismissal time and reason, up to
+ * `maxEntries`. Toasts the user closed or acted on are recorded as read;
+ * all others (timed out, evicted, ...) count as unread.
+ *
+ * Recording starts when the service is first injected. Use `withHistory()`
+ * to start it with the application.
+ */
+
+import { computed, DestroyRef, inject, Injectable, signal } from '@angular/core';
+import { TOAST_HISTORY_MAX_ENTRIES } from '../constants/toast.constants';
+import { TOAST_HISTORY_OPTIONS, ToastHistoryEntry } from '../types/toast-history.type';
+import { Toast, ToastDismissReason } from '../types/toast.type';
+import { ToastService } from './toast.service';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ToastHistoryService {
+  private readonly options = inject(TOAST_HISTORY_OPTIONS, { optional: true }) ?? {};
+
+  /**
+   * Internal signal holding history entries, newest first.
+   */
+  private readonly entriesSignal = signal<readonly ToastHistoryEntry[]>([]);
+
+  /**
+   * Readonly signal exposing history entries, newest first.
+   */
+  readonly entries = this.entriesSignal.asReadonly();
+
+  /**
+   * Number of entries not yet marked as read.
+   */
+  readonly unreadCount = computed(() => {
+    return this.entriesSignal().filter((entry) => !entry.read).length;
+  });
+
+  constructor() {
+    const subscription = inject(ToastService).events.subscribe((event) => {
+      if (event.type === 'dismissed') {
+        this.record(event.toast, event.reason);
+      }
+    });
+
+    inject(DestroyRef).onDestroy(() => subscription.unsubscribe());
+  }
+
+  // ==========================================================================
+  // PUBLIC API
+  // ==========================================================================
+
+  /**
+   * Marks an entry as read.
+   *
+   * @param entryId - ID of the entry (the toast ID)
+   */
+  markAsRead(entryId: string): void {
+    this.entriesSignal.update((entries) =>
+      entries.map((entry) => (entry.id === entryId ? { ...entry, read: true } : entry))
+    );
+  }
+
+  /**
+   * Marks all entries as read.
+   */
+  markAllAsRead(): void {
+    this.entriesSignal.update((entries) => entries.map((entry) => ({ ...entry, read: true })));
+  }
+
+  /**
+   * Removes a single entry.
+   *
+   * @param entryId - ID of the entry (the toast ID)
+   */
+  remove(entryId: string): void {
+    this.entriesSignal.update((entries) => entries.filter((entry) => entry.id !== entryId));
+  }
+
+  /**
+   * Removes all entries.
+   */
+  clear(): void {
+    this.entriesSignal.set([]);
+  }
+
+  // ==========================================================================
+  // PRIVATE - Recording
+  // ==========================================================================
+
+  private record(toast: Toast, reason: ToastDismissReason): void {
+    if (this.options.filter && !this.options.filter(toast, reason)) {
+      return;
+    }
+
+    const entry: ToastHistoryEntry = {
+      id: toast.id,
+      toast,
+      dismissedAt: Date.now(),
+      reason,
+      // The user already saw toasts they closed or acted on
+      read: reason === 'user-close' || reason === 'action' || reason === 'swipe',
+    };
+    const maxEntries = this.options.maxEntries ?? TOAST_HISTORY_MAX_ENTRIES;
+
+    this.entriesSignal.update((entries) => [entry, ...entries].slice(0, maxEntries));
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Toast Persistence Service - Keeps toasts across page reloads.
+ *
+ * Registered by `withPersistence()`. This service:
+ * - Writes toasts marked `persist: true` to storage whenever toasts change
+ * - Restores them on startup with the time they had left
+ * - Reconnects restored actions to handlers registered by action ID
+ *
+ * Toasts with a custom template or component can't be stored and are not persisted.
+ */
+
+import { DOCUMENT } from '@angular/common';
+import { DestroyRef, EnvironmentInjector, inject, Injectable } from '@angular/core';
+import { TOAST_PERSISTENCE_STORAGE_KEY } from '../constants/toast.constants';
+import {
+  TOAST_PERSISTENCE_OPTIONS,
+  ToastPersistenceStorage,
+  ToastStorageAdapter,
+} from '../types/toast-persistence.type';
+import { Toast } from '../types/toast.type';
+import {
+  isSerializableToast,
+  isSerializedToastPayload,
+  restoreToastActions,
+  SerializedToastPayload,
+  serializeToast,
+} from '../utils/toast-serialization';
+import { ToastService } from './toast.service';
+
+/**
+ * Stored form of a toast and its countdown.
+ */
+interface PersistedToast {
+  readonly payload: SerializedToastPayload;
+  /** When a running countdown ends */
+  readonly expiresAt: number | null;
+  /** Time left of a paused or not yet started countdown */
+  readonly remainingMs: number | null;
+}
+
+@Injectable()
+export class ToastPersistenceService {
+  private readonly toastService = inject(ToastService);
+  private readonly injector = inject(EnvironmentInjector);
+  private readonly options = inject(TOAST_PERSISTENCE_OPTIONS, { optional: true }) ?? {};
+  private readonly window = inject(DOCUMENT).defaultView;
+  private readonly storage = resolveStorage(this.options.storage ?? 'session', this.window);
+  private readonly storageKey = this.options.storageKey ?? TOAST_PERSISTENCE_STORAGE_KEY;
+
+  constructor() {
+    this.restore();
+
+    const subscription = this.toastService.events.subscribe(() => this.save());
+    // Countdowns change without events (pause, resume), so save their final state on unload
+    const saveOnPageHide = (): void => this.save();
+    this.window?.addEventListener('pagehide', saveOnPageHide);
+
+    inject(DestroyRef).onDestroy(() => {
+      subscription.unsubscribe();
+      this.window?.removeEventListener('pagehide', saveOnPageHide);
+    });
+  }
+
+  // ==========================================================================
+  // PRIVATE - Saving
+  // ==========================================================================
+
+  private save(): void {
+    const records = this.toastService
+      .toasts()
+      .filter((toast) => toast.persist && isSerializableToast(toast))
+      .map((toast) => this.toRecord(toast));
+
+    try {
+      if (records.length === 0) {
+        this.storage.removeItem(this.storageKey);
+      } else {
+        this.storage.setItem(this.storageKey, JSON.stringify(records));
+      }
+    } catch {
+      // Storage is full or unavailable; the toasts are simply not restored
+    }
+  }
+
+  private toRecord(toast: Toast): PersistedToast {
+    const timerState = this.toastService.timerStates()[toast.id];
+    const expiresAt =
+      timerState?.running && timerState.startedAt !== null
+        ? timerState.startedAt + timerState.remainingMs
+        : null;
+
+    return {
+      payload: serializeToast(toast),
+      expiresAt,
+      // Queued toasts have no countdown yet and keep their full duration
+      remainingMs:
+        expiresAt === null && toast.durationMs > 0
+          ? (timerState?.remainingMs ?? toast.durationMs)
+          : null,
+    };
+  }
+
+  // ==========================================================================
+  // PRIVATE - Restoring
+  // ==========================================================================
+
+  private restore(): void {
+    for (const record of this.read()) {
+      const durationMs = this.remainingDuration(record);
+      if (durationMs === null) {
+        continue; // Expired while the page was closed
+      }
+
+      try {
+        this.toastService.show({
+          ...record.payload,
+          durationMs,
+          actions: restoreToastActions(
+            record.payload.actions,
+            this.options.actions,
+            this.injector
+          ),
+        });
+      } catch {
+        // Rejected by the overflow strategy; startup must not fail because of it
+      }
+    }
+  }
+
+  private read(): readonly PersistedToast[] {
+    try {
+      const value = this.storage.getItem(this.storageKey);
+      const records: unknown = value ? JSON.parse(value) : [];
+      return Array.isArray(records) ? records.filter(isPersistedToast) : [];
+    } catch {
+      return []; // Unreadable or corrupted storage
+    }
+  }
+
+  private remainingDuration(record: PersistedToast): number | null {
+    if (record.payload.durationMs === 0) {
+      return 0;
+    }
+
+    const remainingMs =
+      record.expiresAt !== null ? record.expiresAt - Date.now() : (record.remainingMs ?? 0);
+    return remainingMs > 0 ? remainingMs : null;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function resolveStorage(
+  storage: ToastPersistenceStorage,
+  window: Window | null
+): ToastStorageAdapter {
+  if (typeof storage === 'object') {
+    return storage;
+  }
+
+  try {
+    // Server-side window implementations may not provide storage
+    if (storage === 'local' && window?.localStorage) {
+      return window.localStorage;
+    }
+    if (storage === 'session' && window?.sessionStorage) {
+      return window.sessionStorage;
+    }
+  } catch {
+    // Accessing storage throws when it is blocked (e.g. cookies disabled)
+  }
+
+  return createMemoryStorage();
+}
+
+function createMemoryStorage(): ToastStorageAdapter {
+  const values = new Map<string, string>();
+
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => values.set(key, value),
+    removeItem: (key) => values.delete(key),
+  };
+}
+
+function isPersistedToast(record: unknown): record is PersistedToast {
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    isSerializedToastPayload((record as Partial<PersistedToast>).payload)
+  );
+}
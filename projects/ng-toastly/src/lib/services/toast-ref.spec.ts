@@ -0,0 +1,158 @@
+/**
+ * Tests for ToastRef
+ *
+ * Verifies:
+ * - Lifecycle observables (opened, dismissed, action)
+ * - Dismissal reasons
+ * - Delegation of update/dismiss to ToastService
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { ToastService } from './toast.service';
+import { ToastAction, ToastDismissReason } from '../types/toast.type';
+
+describe('ToastRef', () => {
+  let service: ToastService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    TestBed.configureTestingModule({
+      providers: [ToastService],
+    });
+    service = TestBed.inject(ToastService);
+  });
+
+  afterEach(() => {
+    service.dismissAll();
+    vi.useRealTimers();
+  });
+
+  // ==========================================================================
+  // Lifecycle Tests
+  // ==========================================================================
+
+  describe('afterOpened()', () => {
+    it('should emit for late subscribers once the toast is shown', () => {
+      const toastRef = service.info('Opened');
+      const onOpened = vi.fn();
+
+      toastRef.afterOpened().subscribe(onOpened);
+
+      expect(onOpened).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('afterDismissed()', () => {
+    it('should report programmatic dismissal', () => {
+      const toastRef = service.info('Test');
+      const reasons: ToastDismissReason[] = [];
+      toastRef.afterDismissed().subscribe((reason) => reasons.push(reason));
+
+      toastRef.dismiss();
+
+      expect(reasons).toEqual(['programmatic']);
+      expect(service.toasts().length).toBe(0);
+    });
+
+    it('should report timeout when the auto-dismiss timer elapses', () => {
+      const toastRef = service.info('Test', { durationMs: 2000 });
+      const reasons: ToastDismissReason[] = [];
+      toastRef.afterDismissed().subscribe((reason) => reasons.push(reason));
+
+      vi.advanceTimersByTime(2000);
+
+      expect(reasons).toEqual(['timeout']);
+    });
+
+    it('should report the reason passed to ToastService.dismiss', () => {
+      const toastRef = service.info('Test');
+      const reasons: ToastDismissReason[] = [];
+      toastRef.afterDismissed().subscribe((reason) => reasons.push(reason));
+
+      service.dismiss(toastRef.id, 'user-close');
+
+      expect(reasons).toEqual(['user-close']);
+    });
+
+    it('should report programmatic dismissal for dismissAll()', () => {
+      const toastRef = service.info('Test');
+      const reasons: ToastDismissReason[] = [];
+      toastRef.afterDismissed().subscribe((reason) => reasons.push(reason));
+
+      service.dismissAll();
+
+      expect(reasons).toEqual(['programmatic']);
+    });
+
+    it('should emit only once and complete', () => {
+      const toastRef = service.info('Test');
+      const onReason = vi.fn();
+      const onComplete = vi.fn();
+      toastRef.afterDismissed().subscribe({ next: onReason, complete: onComplete });
+
+      toastRef.dismiss();
+      service.dismiss(toastRef.id, 'user-close');
+
+      expect(onReason).toHaveBeenCalledTimes(1);
+      expect(onComplete).toHaveBeenCalled();
+    });
+  });
+
+  describe('onAction()', () => {
+    const undoAction: ToastAction = {
+      label: 'Undo',
+      variant: 'primary',
+      onClick: () => {},
+    };
+
+    it('should emit clicked actions without dismissing', () => {
+      const toastRef = service.info('Deleted', { actions: [undoAction] });
+      const onAction = vi.fn();
+      toastRef.onAction().subscribe(onAction);
+
+      service.handleAction(toastRef.id, undoAction);
+
+      expect(onAction).toHaveBeenCalledWith(undoAction);
+      expect(service.toasts().length).toBe(1);
+    });
+
+    it('should dismiss with reason action when dismissOnClick is set', () => {
+      const dismissingAction: ToastAction = { ...undoAction, dismissOnClick: true };
+      const toastRef = service.info('Deleted', { actions: [dismissingAction] });
+      const reasons: ToastDismissReason[] = [];
+      toastRef.afterDismissed().subscribe((reason) => reasons.push(reason));
+
+      service.handleAction(toastRef.id, dismissingAction);
+
+      expect(reasons).toEqual(['action']);
+      expect(service.toasts().length).toBe(0);
+    });
+
+    it('should complete when the toast is dismissed', () => {
+      const toastRef = service.info('Test');
+      const onComplete = vi.fn();
+      toastRef.onAction().subscribe({ complete: onComplete });
+
+      toastRef.dismiss();
+
+      expect(onComplete).toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // Update Tests
+  // ==========================================================================
+
+  describe('update()', () => {
+    it('should change the referenced toast in place', () => {
+      const toastRef = service.info('Uploading');
+
+      toastRef.update({ message: 'Uploaded', type: 'success' });
+
+      const toast = service.toasts()[0];
+      expect(toast.id).toBe(toastRef.id);
+      expect(toast.message).toBe('Uploaded');
+      expect(toast.type).toBe('success');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Toast Ref - Handle to a single toast returned by ToastService.
+ *
+ * Lets callers follow the lifecycle of one toast without keeping track
+ * of its ID or reading the global `toasts` signal.
+ *
+ * @example
+ * ```typescript
+ * const toastRef = toastService.info('Draft saved', {
+ *   actions: [{ label: 'Undo', variant: 'primary', onClick: () => {}, dismissOnClick: true }],
+ * });
+ *
+ * toastRef.afterDismissed().subscribe((reason) => {
+ *   if (reason === 'action') {
+ *     restoreDraft();
+ *   }
+ * });
+ * ```
+ */
+
+import { Observable, ReplaySubject, Subject } from 'rxjs';
+import type { ToastService } from './toast.service';
+import { ToastAction, ToastDismissReason, ToastUpdate } from '../types/toast.type';
+
+/**
+ * Reference to a toast created through ToastService.
+ */
+export class ToastRef {
+  /**
+   * Emits once when the toast is shown.
+   */
+  private readonly openedSubject = new ReplaySubject<void>(1);
+
+  /**
+   * Emits once with the dismissal reason when the toast is removed.
+   */
+  private readonly dismissedSubject = new ReplaySubject<ToastDismissReason>(1);
+
+  /**
+   * Emits every time one of the toast's action buttons is clicked.
+   */
+  private readonly actionSubject = new Subject<ToastAction>();
+
+  /**
+   * Whether the toast has already been dismissed.
+   */
+  private isDismissed = false;
+
+  constructor(
+    /** Unique ID of the referenced toast */
+    readonly id: string,
+    private readonly toastService: ToastService
+  ) {}
+
+  /**
+   * Emits and completes once the toast is shown.
+   */
+  afterOpened(): Observable<void> {
+    return this.openedSubject.asObservable();
+  }
+
+  /**
+   * Emits the dismissal reason and completes once the toast is removed.
+   */
+  afterDismissed(): Observable<ToastDismissReason> {
+    return this.dismissedSubject.asObservable();
+  }
+
+  /**
+   * Emits the clicked action every time an action button is used.
+   * Completes when the toast is dismissed.
+   */
+  onAction(): Observable<ToastAction> {
+    return this.actionSubject.asObservable();
+  }
+
+  /**
+   * Applies changes to the toast while it is on screen.
+   *
+   * @param changes - Properties to change
+   * @throws ToastError if the toast has already been dismissed
+   */
+  update(changes: ToastUpdate): void {
+    this.toastService.update(this.id, changes);
+  }
+
+  /**
+   * Dismisses the toast.
+   */
+  dismiss(): void {
+    this.toastService.dismiss(this.id);
+  }
+
+  /**
+   * Marks the toast as shown.
+   * @internal
+   */
+  notifyOpened(): void {
+    this.openedSubject.next();
+    this.openedSubject.complete();
+  }
+
+  /**
+   * Forwards an action button click to subscribers.
+   * @internal
+   */
+  notifyAction(action: ToastAction): void {
+    if (this.isDismissed) {
+      return;
+    }
+
+    this.actionSubject.next(action);
+  }
+
+  /**
+   * Marks the toast as dismissed and completes all streams.
+   * @internal
+   */
+  notifyDismissed(reason: ToastDismissReason): void {
+    if (this.isDismissed) {
+      return;
+    }
+
+    this.isDismissed = true;
+
+    this.openedSubject.complete();
+    this.actionSubject.complete();
+    this.dismissedSubject.next(reason);
+    this.dismissedSubject.complete();
+  }
+}
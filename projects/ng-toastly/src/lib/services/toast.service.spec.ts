@@ -6,15 +6,33 @@
  * - Auto-dismiss timer behavior
  * - Timer cleanup on dismiss
  * - Validation logic
+ * - Leave animation phase of dismissed toasts
  */
 
 import { TestBed } from '@angular/core/testing';
+import { Component } from '@angular/core';
 import { ToastService } from './toast.service';
-import { ToastPayload } from '../types/toast.type';
+import { Subject } from 'rxjs';
+import { ToastDismissReason, ToastPayload } from '../types/toast.type';
+import { ToastGlobalConfigPartial } from '../types/toast-config.type';
+import { provideToastly } from '../provide-toast';
+import {
+  TOAST_NATIVE_NOTIFICATION_ADAPTER,
+  ToastNativeNotificationAdapter,
+} from '../types/toast-native.type';
 
 describe('ToastService', () => {
   let service: ToastService;
 
+  function createServiceWithConfig(config: ToastGlobalConfigPartial): ToastService {
+    service.dismissAll();
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [ToastService, provideToastly(config)],
+    });
+    return TestBed.inject(ToastService);
+  }
+
   beforeEach(() => {
     TestBed.configureTestingModule({
       providers: [ToastService],
@@ -31,11 +49,11 @@ describe('ToastService', () => {
   // ==========================================================================
 
   describe('show()', () => {
-    it('should create a toast and return its ID', () => {
-      const toastId = service.show({ message: 'Test message' });
+    it('should create a toast and return a reference with its ID', () => {
+      const toastRef = service.show({ message: 'Test message' });
 
-      expect(toastId).toBeTruthy();
-      expect(toastId).toContain('toastly-');
+      expect(toastRef.id).toBeTruthy();
+      expect(toastRef.id).toContain('toastly-');
       expect(service.toasts().length).toBe(1);
     });
 
@@ -67,6 +85,68 @@ describe('ToastService', () => {
       expect(toast.type).toBe('info');
       expect(toast.theme).toBe('light');
       expect(toast.dismissible).toBe(true);
+      expect(toast.showCountdown).toBe(false);
+    });
+
+    it('should let the payload enable the countdown bar', () => {
+      service.show({ message: 'Test', showCountdown: true });
+
+      expect(service.toasts()[0].showCountdown).toBe(true);
+    });
+
+    it('should enable swipe to dismiss by default', () => {
+      service.show({ message: 'Test' });
+
+      expect(service.toasts()[0].swipeToDismiss).toBe(true);
+    });
+
+    it('should let the payload override the global swipe setting', () => {
+      service = createServiceWithConfig({ swipeToDismiss: false });
+
+      const globalRef = service.show({ message: 'Global' });
+      const overrideRef = service.show({ message: 'Override', swipeToDismiss: true });
+      const swipeToDismissOf = (id: string) =>
+        service.toasts().find((toast) => toast.id === id)?.swipeToDismiss;
+
+      expect(swipeToDismissOf(globalRef.id)).toBe(false);
+      expect(swipeToDismissOf(overrideRef.id)).toBe(true);
+    });
+  });
+
+  describe('showComponent()', () => {
+    @Component({ template: '' })
+    class InviteContentComponent {}
+
+    it('should create a toast rendering the component with its inputs', () => {
+      service.showComponent(InviteContentComponent, {
+        inputs: { inviter: 'Ada' },
+        title: 'Invitation',
+      });
+
+      const toast = service.toasts()[0];
+      expect(toast.component).toBe(InviteContentComponent);
+      expect(toast.componentInputs).toEqual({ inviter: 'Ada' });
+      expect(toast.title).toBe('Invitation');
+      expect(toast.message).toBe('');
+    });
+
+    it('should apply the usual toast options', () => {
+      vi.useFakeTimers();
+
+      service.showComponent(InviteContentComponent, { type: 'success', durationMs: 2000 });
+      vi.advanceTimersByTime(2000);
+
+      expect(service.toasts().length).toBe(0);
+      vi.useRealTimers();
+    });
+
+    it('should not auto-dedupe component toasts by their empty message', () => {
+      service = createServiceWithConfig({ autoDedupe: true });
+
+      service.showComponent(InviteContentComponent);
+      service.showComponent(InviteContentComponent);
+
+      expect(service.toasts().length).toBe(2);
     });
   });
 
@@ -96,14 +176,150 @@ describe('ToastService', () => {
     });
   });
 
+  // ==========================================================================
+  // Promise Tests
+  // ==========================================================================
+
+  describe('promise()', () => {
+    const messages = {
+      loading: 'Saving...',
+      success: (name: string) => `${name} saved`,
+      error: 'Save failed',
+    };
+
+    it('should show a loading toast that does not auto-dismiss', () => {
+      service.promise(new Promise<string>(() => {}), messages);
+
+      const toast = service.toasts()[0];
+      expect(toast.type).toBe('loading');
+      expect(toast.message).toBe('Saving...');
+      expect(toast.durationMs).toBe(0);
+    });
+
+    it('should turn into a success toast with the resolved value', async () => {
+      const result = await service.promise(Promise.resolve('Report'), messages);
+
+      const toast = service.toasts()[0];
+      expect(result).toBe('Report');
+      expect(service.toasts().length).toBe(1);
+      expect(toast.type).toBe('success');
+      expect(toast.message).toBe('Report saved');
+      expect(toast.durationMs).toBeGreaterThan(0);
+    });
+
+    it('should not fail when the loading toast was dismissed before settling', async () => {
+      let resolve: (value: string) => void = () => {};
+      const pending = new Promise<string>((resolver) => (resolve = resolver));
+      const promise = service.promise(pending, messages);
+
+      service.dismissAll();
+      resolve('Report');
+
+      await expect(promise).resolves.toBe('Report');
+      expect(service.toasts().length).toBe(0);
+    });
+
+    it('should turn into a danger toast and rethrow on rejection', async () => {
+      const failure = new Error('offline');
+
+      await expect(service.promise(Promise.reject(failure), messages)).rejects.toBe(failure);
+
+      const toast = service.toasts()[0];
+      expect(toast.type).toBe('danger');
+      expect(toast.message).toBe('Save failed');
+    });
+
+    it('should pass the error to the error message builder', async () => {
+      const promise = service.promise(Promise.reject(new Error('offline')), {
+        ...messages,
+        error: (error) => `Failed: ${(error as Error).message}`,
+      });
+
+      await expect(promise).rejects.toThrow();
+      expect(service.toasts()[0].message).toBe('Failed: offline');
+    });
+
+    it('should show the toast only when an observable is subscribed', () => {
+      const source = new Subject<string>();
+      const tracked = service.promise(source, messages);
+
+      expect(service.toasts().length).toBe(0);
+
+      tracked.subscribe();
+      expect(service.toasts()[0].type).toBe('loading');
+    });
+
+    it('should settle on the first value emitted by an observable', () => {
+      const source = new Subject<string>();
+      const values: string[] = [];
+      service.promise(source, messages).subscribe((value) => values.push(value));
+
+      source.next('Invoice');
+      source.next('Receipt');
+
+      expect(values).toEqual(['Invoice', 'Receipt']);
+      expect(service.toasts()[0].type).toBe('success');
+      expect(service.toasts()[0].message).toBe('Invoice saved');
+    });
+
+    it('should dismiss the loading toast when the subscriber unsubscribes', () => {
+      const source = new Subject<string>();
+      const subscription = service.promise(source, messages).subscribe();
+
+      subscription.unsubscribe();
+
+      expect(service.toasts().length).toBe(0);
+      expect(source.observed).toBe(false);
+    });
+
+    it('should keep the settled toast when unsubscribing after success', () => {
+      const source = new Subject<string>();
+      const subscription = service.promise(source, messages).subscribe();
+
+      source.next('Invoice');
+      subscription.unsubscribe();
+
+      expect(service.toasts().length).toBe(1);
+    });
+
+    describe('when the overflow strategy rejects the loading toast', () => {
+      beforeEach(() => {
+        service = createServiceWithConfig({ maximumVisibleToasts: 1, overflowStrategy: 'reject' });
+        service.info('Occupied', { durationMs: 0 });
+      });
+
+      it('should still settle like the source promise', async () => {
+        const failure = new Error('offline');
+
+        await expect(service.promise(Promise.resolve('Report'), messages)).resolves.toBe('Report');
+        await expect(service.promise(Promise.reject(failure), messages)).rejects.toBe(failure);
+        expect(service.toasts().map((toast) => toast.message)).toEqual(['Occupied']);
+      });
+
+      it('should still mirror the source observable', () => {
+        const source = new Subject<string>();
+        const values: string[] = [];
+        const subscription = service.promise(source, messages).subscribe((value) => {
+          values.push(value);
+        });
+
+        source.next('Invoice');
+        subscription.unsubscribe();
+
+        expect(values).toEqual(['Invoice']);
+        expect(service.toasts().length).toBe(1);
+      });
+    });
+  });
+
   // ==========================================================================
   // Dismiss Tests
   // ==========================================================================
 
   describe('dismiss()', () => {
     it('should remove a specific toast by ID', () => {
-      const id1 = service.info('First');
-      const id2 = service.info('Second');
+      const id1 = service.info('First').id;
+      const id2 = service.info('Second').id;
 
       expect(service.toasts().length).toBe(2);
 
@@ -135,6 +351,100 @@ describe('ToastService', () => {
     });
   });
 
+  describe('events', () => {
+    it('should emit shown, updated and dismissed events', () => {
+      const events: string[] = [];
+      service.events.subscribe((event) => events.push(event.type));
+
+      const toastRef = service.info('Uploading');
+      service.update(toastRef.id, { message: 'Uploaded' });
+      service.dismiss(toastRef.id);
+
+      expect(events).toEqual(['shown', 'updated', 'dismissed']);
+    });
+
+    it('should include the dismissal reason', () => {
+      const reasons: ToastDismissReason[] = [];
+      service.events.subscribe((event) => {
+        if (event.type === 'dismissed') {
+          reasons.push(event.reason);
+        }
+      });
+
+      const toastRef = service.info('First');
+      service.info('Second');
+      service.dismiss(toastRef.id, 'user-close');
+      service.dismissAll();
+
+      expect(reasons).toEqual(['user-close', 'programmatic']);
+    });
+  });
+
+  // ==========================================================================
+  // Group and Tag Tests
+  // ==========================================================================
+
+  describe('groups and tags', () => {
+    it('should dismiss only the toasts of a group', () => {
+      service.info('Uploading a.png', { group: 'upload' });
+      service.info('Uploading b.png', { group: 'upload' });
+      const otherRef = service.info('New message');
+
+      service.dismissGroup('upload');
+
+      expect(service.toasts().map((toast) => toast.id)).toEqual([otherRef.id]);
+    });
+
+    it('should report the given reason for group dismissal', () => {
+      const uploadRef = service.info('Uploading', { group: 'upload' });
+      const reasons: ToastDismissReason[] = [];
+      uploadRef.afterDismissed().subscribe((reason) => reasons.push(reason));
+
+      service.dismissGroup('upload', 'user-close');
+
+      expect(reasons).toEqual(['user-close']);
+    });
+
+    it('should promote queued toasts after a group is dismissed', () => {
+      service = createServiceWithConfig({ maximumVisibleToasts: 1 });
+      service.info('Uploading', { group: 'upload' });
+      const queuedRef = service.info('New message');
+
+      service.dismissGroup('upload');
+
+      expect(service.visibleToasts().map((toast) => toast.id)).toEqual([queuedRef.id]);
+    });
+
+    it('should expose active toasts by group', () => {
+      const firstRef = service.info('Uploading a.png', { group: 'upload' });
+      const syncRef = service.info('Syncing', { group: 'sync' });
+      service.info('Ungrouped');
+
+      const groups = service.toastsByGroup();
+      expect(Object.keys(groups).sort()).toEqual(['sync', 'upload']);
+      expect(groups['upload'].map((toast) => toast.id)).toEqual([firstRef.id]);
+      expect(groups['sync'].map((toast) => toast.id)).toEqual([syncRef.id]);
+    });
+
+    it('should find toasts by tag', () => {
+      const billingRef = service.warning('Card expiring', { tags: ['billing', 'account'] });
+      service.info('Welcome back', { tags: ['account'] });
+
+      expect(service.getByTag('billing').map((toast) => toast.id)).toEqual([billingRef.id]);
+      expect(service.getByTag('account').length).toBe(2);
+      expect(service.getByTag('unknown').length).toBe(0);
+    });
+
+    it('should dismiss toasts by tag', () => {
+      service.warning('Card expiring', { tags: ['billing'] });
+      const otherRef = service.info('Welcome back', { tags: ['account'] });
+
+      service.dismissByTag('billing');
+
+      expect(service.toasts().map((toast) => toast.id)).toEqual([otherRef.id]);
+    });
+  });
+
   // ==========================================================================
   // Validation Tests
   // ==========================================================================
@@ -146,6 +456,12 @@ describe('ToastService', () => {
       ).toThrow();
     });
 
+    it('should throw error for negative animation duration', () => {
+      expect(() =>
+        service.show({ message: 'Test', animation: { durationMs: -100 } })
+      ).toThrow();
+    });
+
     it('should throw error for progress value below 0', () => {
       expect(() =>
         service.show({ message: 'Test', progressPercent: -10 })
@@ -177,7 +493,7 @@ describe('ToastService', () => {
 
   describe('updateProgress()', () => {
     it('should update progress value for a toast', () => {
-      const toastId = service.show({ message: 'Uploading', progressPercent: 0 });
+      const toastId = service.show({ message: 'Uploading', progressPercent: 0 }).id;
 
       service.updateProgress(toastId, 50);
 
@@ -185,13 +501,128 @@ describe('ToastService', () => {
     });
 
     it('should throw for invalid progress values', () => {
-      const toastId = service.show({ message: 'Test', progressPercent: 0 });
+      const toastId = service.show({ message: 'Test', progressPercent: 0 }).id;
 
       expect(() => service.updateProgress(toastId, -10)).toThrow();
       expect(() => service.updateProgress(toastId, 150)).toThrow();
     });
   });
 
+  // ==========================================================================
+  // Update Tests
+  // ==========================================================================
+
+  describe('update()', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should change content while keeping the ID and stack position', () => {
+      service.info('First');
+      const toastRef = service.info('Second');
+      service.info('Third');
+
+      service.update(toastRef.id, {
+        message: 'Updated',
+        title: 'New title',
+        type: 'warning',
+        theme: 'dark',
+      });
+
+      const toast = service.toasts()[1];
+      expect(toast.id).toBe(toastRef.id);
+      expect(toast.message).toBe('Updated');
+      expect(toast.title).toBe('New title');
+      expect(toast.type).toBe('warning');
+      expect(toast.theme).toBe('dark');
+    });
+
+    it('should keep properties that are not part of the changes', () => {
+      const toastRef = service.show({ message: 'Test', title: 'Title', type: 'success' });
+
+      service.update(toastRef.id, { message: 'Changed' });
+
+      const toast = service.toasts()[0];
+      expect(toast.title).toBe('Title');
+      expect(toast.type).toBe('success');
+    });
+
+    it('should replace actions', () => {
+      const toastRef = service.info('Test');
+      const retry = { label: 'Retry', variant: 'primary' as const, onClick: vi.fn() };
+
+      service.update(toastRef.id, { actions: [retry] });
+
+      expect(service.toasts()[0].actions).toEqual([retry]);
+    });
+
+    it('should throw TOAST_NOT_FOUND for an unknown ID', () => {
+      expect(() => service.update('non-existent', { message: 'Test' })).toThrow(
+        expect.objectContaining({ code: 'TOAST_NOT_FOUND' })
+      );
+    });
+
+    it('should run the same validation as show()', () => {
+      const toastRef = service.info('Test');
+
+      expect(() => service.update(toastRef.id, { durationMs: -1 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_DURATION' })
+      );
+      expect(() => service.update(toastRef.id, { progressPercent: 120 })).toThrow(
+        expect.objectContaining({ code: 'INVALID_PROGRESS_VALUE' })
+      );
+    });
+
+    it('should restart the timer when durationMs changes', () => {
+      vi.useFakeTimers();
+      const toastRef = service.info('Test', { durationMs: 2000 });
+
+      vi.advanceTimersByTime(1500);
+      service.update(toastRef.id, { durationMs: 3000 });
+      vi.advanceTimersByTime(2500);
+
+      expect(service.toasts().length).toBe(1);
+
+      vi.advanceTimersByTime(500);
+      expect(service.toasts().length).toBe(0);
+    });
+
+    it('should start a preempted toast with its new duration once it is opened again', () => {
+      vi.useFakeTimers();
+      service = createServiceWithConfig({ maximumVisibleToasts: 1 });
+      const normalRef = service.info('Normal', { durationMs: 5000 });
+      const highRef = service.warning('High', { priority: 'high', durationMs: 0 });
+
+      service.update(normalRef.id, { durationMs: 20000 });
+      highRef.dismiss();
+
+      expect(service.timerStates()[normalRef.id].remainingMs).toBe(20000);
+      vi.advanceTimersByTime(19000);
+      expect(service.toasts().map((toast) => toast.id)).toEqual([normalRef.id]);
+    });
+
+    it('should stop auto-dismiss when durationMs changes to 0', () => {
+      vi.useFakeTimers();
+      const toastRef = service.info('Test', { durationMs: 2000 });
+
+      service.update(toastRef.id, { durationMs: 0 });
+      vi.advanceTimersByTime(10000);
+
+      expect(service.toasts().length).toBe(1);
+    });
+
+    it('should not touch the timer when durationMs is unchanged', () => {
+      vi.useFakeTimers();
+      const toastRef = service.info('Test', { durationMs: 2000 });
+
+      vi.advanceTimersByTime(1500);
+      service.update(toastRef.id, { message: 'Changed' });
+      vi.advanceTimersByTime(500);
+
+      expect(service.toasts().length).toBe(0);
+    });
+  });
+
   // ==========================================================================
   // Visible Toasts Tests
   // ==========================================================================
@@ -208,6 +639,411 @@ describe('ToastService', () => {
     });
   });
 
+  // ==========================================================================
+  // Deduplication Tests
+  // ==========================================================================
+
+  describe('deduplication', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep identical toasts without a dedupeKey by default', () => {
+      service.danger('Connection lost');
+      service.danger('Connection lost');
+
+      expect(service.toasts().length).toBe(2);
+    });
+
+    it("should count repeats of the same dedupeKey with the default 'count' strategy", () => {
+      const firstRef = service.danger('Connection lost', { dedupeKey: 'socket' });
+      const repeatRef = service.danger('Connection lost', { dedupeKey: 'socket' });
+      service.danger('Connection lost', { dedupeKey: 'socket' });
+
+      expect(repeatRef).toBe(firstRef);
+      expect(service.toasts().length).toBe(1);
+      expect(service.toasts()[0].repeatCount).toBe(3);
+    });
+
+    it('should restart the timer of the existing toast on repeat', () => {
+      service.danger('Connection lost', { dedupeKey: 'socket', durationMs: 2000 });
+
+      vi.advanceTimersByTime(1500);
+      service.danger('Connection lost', { dedupeKey: 'socket', durationMs: 2000 });
+      vi.advanceTimersByTime(1500);
+
+      expect(service.toasts().length).toBe(1);
+    });
+
+    it('should keep a hovered toast paused on repeat', () => {
+      const toastRef = service.danger('Lost', { dedupeKey: 'socket', durationMs: 2000 });
+      service.pauseTimer(toastRef.id);
+
+      service.danger('Lost', { dedupeKey: 'socket', durationMs: 2000 });
+
+      expect(service.timerStates()[toastRef.id].running).toBe(false);
+      expect(service.remainingTime(toastRef.id)()).toBe(2000);
+    });
+
+    it('should start a new toast once the previous one is dismissed', () => {
+      const firstRef = service.danger('Connection lost', { dedupeKey: 'socket' });
+      firstRef.dismiss();
+
+      const secondRef = service.danger('Connection lost', { dedupeKey: 'socket' });
+
+      expect(secondRef).not.toBe(firstRef);
+      expect(service.toasts()[0].repeatCount).toBe(1);
+    });
+
+    it("should leave the toast untouched with the 'ignore' strategy", () => {
+      service = createServiceWithConfig({ dedupeStrategy: 'ignore' });
+      service.danger('Lost', { dedupeKey: 'socket', durationMs: 2000 });
+
+      vi.advanceTimersByTime(1500);
+      service.danger('Lost', { dedupeKey: 'socket', durationMs: 2000 });
+      vi.advanceTimersByTime(500);
+
+      expect(service.toasts().length).toBe(0);
+    });
+
+    it("should only restart the timer with the 'refresh' strategy", () => {
+      service = createServiceWithConfig({ dedupeStrategy: 'refresh' });
+      service.danger('Lost', { dedupeKey: 'socket', durationMs: 2000 });
+
+      vi.advanceTimersByTime(1500);
+      service.danger('Lost', { dedupeKey: 'socket', durationMs: 2000 });
+      vi.advanceTimersByTime(1500);
+
+      expect(service.toasts().length).toBe(1);
+      expect(service.toasts()[0].repeatCount).toBe(1);
+    });
+
+    it('should match on type, title and message when autoDedupe is enabled', () => {
+      service = createServiceWithConfig({ autoDedupe: true });
+
+      service.danger('Connection lost', { title: 'Network' });
+      service.danger('Connection lost', { title: 'Network' });
+      service.warning('Connection lost', { title: 'Network' });
+
+      expect(service.toasts().length).toBe(2);
+    });
+  });
+
+  // ==========================================================================
+  // Overflow Tests
+  // ==========================================================================
+
+  describe('overflow handling', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    describe("with 'queue' strategy (default)", () => {
+      beforeEach(() => {
+        service = createServiceWithConfig({ maximumVisibleToasts: 2 });
+      });
+
+      it('should queue toasts beyond the limit', () => {
+        service.info('First');
+        service.info('Second');
+        const queuedRef = service.info('Third');
+
+        expect(service.visibleToasts().length).toBe(2);
+        expect(service.queuedToasts().map((toast) => toast.id)).toEqual([queuedRef.id]);
+      });
+
+      it('should not start the timer of queued toasts', () => {
+        service.info('First', { durationMs: 0 });
+        service.info('Second', { durationMs: 0 });
+        const queuedRef = service.info('Third', { durationMs: 2000 });
+
+        vi.advanceTimersByTime(5000);
+
+        expect(service.toasts().some((toast) => toast.id === queuedRef.id)).toBe(true);
+        expect(service.timerStates()[queuedRef.id]).toBeUndefined();
+      });
+
+      it('should promote the oldest queued toast when a slot frees up', () => {
+        const firstRef = service.info('First', { durationMs: 0 });
+        service.info('Second', { durationMs: 0 });
+        const thirdRef = service.info('Third', { durationMs: 2000 });
+        const fourthRef = service.info('Fourth', { durationMs: 2000 });
+        const onOpened = vi.fn();
+        thirdRef.afterOpened().subscribe(onOpened);
+
+        expect(onOpened).not.toHaveBeenCalled();
+
+        firstRef.dismiss();
+
+        const visibleIds = service.visibleToasts().map((toast) => toast.id);
+        expect(visibleIds).toContain(thirdRef.id);
+        expect(visibleIds).not.toContain(fourthRef.id);
+        expect(onOpened).toHaveBeenCalled();
+        expect(service.remainingTime(thirdRef.id)()).toBe(2000);
+      });
+
+      it('should dismiss queued toasts without opening them', () => {
+        service.info('First');
+        service.info('Second');
+        const queuedRef = service.info('Third');
+        const onOpened = vi.fn();
+        queuedRef.afterOpened().subscribe(onOpened);
+
+        queuedRef.dismiss();
+
+        expect(service.queuedToasts().length).toBe(0);
+        expect(onOpened).not.toHaveBeenCalled();
+      });
+
+      it('should clear the queue on dismissAll()', () => {
+        service.info('First');
+        service.info('Second');
+        service.info('Third');
+
+        service.dismissAll();
+
+        expect(service.queuedToasts().length).toBe(0);
+      });
+    });
+
+    describe('per position', () => {
+      beforeEach(() => {
+        service = createServiceWithConfig({ maximumVisibleToasts: 2 });
+      });
+
+      it('should apply the limit to each position separately', () => {
+        service.info('First', { position: 'bottom-right' });
+        service.info('Second', { position: 'bottom-right' });
+        service.info('Third', { position: 'bottom-right' });
+        const topRef = service.danger('System alert', { position: 'top-center' });
+
+        const visibleIds = service.visibleToasts().map((toast) => toast.id);
+        expect(visibleIds).toContain(topRef.id);
+        expect(service.queuedToasts().length).toBe(1);
+      });
+
+      it('should use a limit set for a position over the global one', () => {
+        service.setVisibleLimit('top-center', 1);
+
+        service.info('First', { position: 'top-center' });
+        service.info('Second', { position: 'top-center' });
+
+        expect(service.visibleToasts().length).toBe(1);
+        expect(service.queuedToasts().length).toBe(1);
+      });
+
+      it('should promote queued toasts when a position limit is raised', () => {
+        service.info('First');
+        service.info('Second');
+        service.info('Third');
+
+        service.setVisibleLimit('bottom-right', 3);
+
+        expect(service.visibleToasts().length).toBe(3);
+        expect(service.queuedToasts().length).toBe(0);
+      });
+
+      it('should fall back to the global limit when reset', () => {
+        service.setVisibleLimit('bottom-right', 4);
+        service.setVisibleLimit('bottom-right', undefined);
+
+        service.info('First');
+        service.info('Second');
+        service.info('Third');
+
+        expect(service.visibleToasts().length).toBe(2);
+      });
+
+      it('should only promote queued toasts into their own position', () => {
+        const bottomRef = service.info('First', { position: 'bottom-right' });
+        service.info('Second', { position: 'bottom-right' });
+        service.info('Queued bottom', { position: 'bottom-right' });
+        service.info('Top 1', { position: 'top-center' });
+        service.info('Top 2', { position: 'top-center' });
+        const queuedTopRef = service.info('Queued top', { position: 'top-center' });
+
+        bottomRef.dismiss();
+
+        const queuedIds = service.queuedToasts().map((toast) => toast.id);
+        expect(queuedIds).toEqual([queuedTopRef.id]);
+      });
+    });
+
+    describe("with 'evict-oldest' strategy", () => {
+      beforeEach(() => {
+        service = createServiceWithConfig({
+          maximumVisibleToasts: 2,
+          overflowStrategy: 'evict-oldest',
+        });
+      });
+
+      it('should dismiss the oldest visible toast with reason evicted', () => {
+        const firstRef = service.info('First');
+        const secondRef = service.info('Second');
+        const reasons: ToastDismissReason[] = [];
+        firstRef.afterDismissed().subscribe((reason) => reasons.push(reason));
+
+        const thirdRef = service.info('Third');
+
+        const visibleIds = service.visibleToasts().map((toast) => toast.id);
+        expect(visibleIds).toEqual([thirdRef.id, secondRef.id]);
+        expect(reasons).toEqual(['evicted']);
+        expect(service.queuedToasts().length).toBe(0);
+      });
+    });
+
+    describe("with 'reject' strategy", () => {
+      beforeEach(() => {
+        service = createServiceWithConfig({
+          maximumVisibleToasts: 2,
+          overflowStrategy: 'reject',
+        });
+      });
+
+      it('should throw MAXIMUM_TOASTS_EXCEEDED beyond the limit', () => {
+        service.info('First');
+        service.info('Second');
+
+        expect(() => service.info('Third')).toThrow(
+          expect.objectContaining({ code: 'MAXIMUM_TOASTS_EXCEEDED' })
+        );
+        expect(service.toasts().length).toBe(2);
+      });
+    });
+  });
+
+  // ==========================================================================
+  // Priority Tests
+  // ==========================================================================
+
+  describe('priority', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      service = createServiceWithConfig({ maximumVisibleToasts: 2 });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should default to 'normal'", () => {
+      service.info('Test');
+
+      expect(service.toasts()[0].priority).toBe('normal');
+    });
+
+    it('should order toasts by priority before recency', () => {
+      const normalRef = service.info('Normal');
+      const highRef = service.warning('High', { priority: 'high' });
+      const lowRef = service.info('Low', { priority: 'low' });
+
+      const ids = service.toasts().map((toast) => toast.id);
+      expect(ids).toEqual([highRef.id, normalRef.id, lowRef.id]);
+    });
+
+    it('should keep newest on top within the same priority', () => {
+      const firstRef = service.info('First', { priority: 'high' });
+      const secondRef = service.info('Second', { priority: 'high' });
+
+      const ids = service.toasts().map((toast) => toast.id);
+      expect(ids).toEqual([secondRef.id, firstRef.id]);
+    });
+
+    it('should push the least important visible toast into the queue', () => {
+      const lowRef = service.info('Low', { priority: 'low' });
+      const normalRef = service.info('Normal');
+      const onDismissed = vi.fn();
+      lowRef.afterDismissed().subscribe(onDismissed);
+
+      const criticalRef = service.danger('Critical', { priority: 'critical' });
+
+      const visibleIds = service.visibleToasts().map((toast) => toast.id);
+      expect(visibleIds).toEqual([criticalRef.id, normalRef.id]);
+      expect(service.queuedToasts().map((toast) => toast.id)).toEqual([lowRef.id]);
+      expect(onDismissed).not.toHaveBeenCalled();
+    });
+
+    it('should keep the remaining time of a preempted toast', () => {
+      const lowRef = service.info('Low', { priority: 'low', durationMs: 4000 });
+      service.info('Normal', { durationMs: 0 });
+
+      vi.advanceTimersByTime(1000);
+      const criticalRef = service.danger('Critical', { priority: 'critical', durationMs: 0 });
+      vi.advanceTimersByTime(5000);
+
+      expect(service.remainingTime(lowRef.id)()).toBe(3000);
+
+      criticalRef.dismiss();
+      vi.advanceTimersByTime(2999);
+      expect(service.visibleToasts().some((toast) => toast.id === lowRef.id)).toBe(true);
+
+      vi.advanceTimersByTime(1);
+      expect(service.toasts().some((toast) => toast.id === lowRef.id)).toBe(false);
+    });
+
+    it('should queue a toast that does not outrank any visible toast', () => {
+      service.info('First');
+      service.info('Second');
+      const lowRef = service.info('Low', { priority: 'low' });
+
+      expect(service.queuedToasts().map((toast) => toast.id)).toEqual([lowRef.id]);
+    });
+
+    it('should open the highest priority queued toast first', () => {
+      service = createServiceWithConfig({ maximumVisibleToasts: 1 });
+      const criticalRef = service.danger('Critical', { priority: 'critical', durationMs: 0 });
+      const normalRef = service.info('Normal');
+      const highRef = service.warning('High', { priority: 'high' });
+
+      criticalRef.dismiss();
+
+      expect(service.visibleToasts().map((toast) => toast.id)).toEqual([highRef.id]);
+      expect(service.queuedToasts().map((toast) => toast.id)).toEqual([normalRef.id]);
+    });
+
+    it('should always make critical toasts dismissible', () => {
+      service.danger('Critical', { priority: 'critical', dismissible: false });
+
+      expect(service.toasts()[0].dismissible).toBe(true);
+    });
+
+    it('should keep critical toasts dismissible after updates', () => {
+      const criticalRef = service.danger('Critical', { priority: 'critical' });
+
+      criticalRef.update({ dismissible: false });
+
+      expect(service.toasts()[0].dismissible).toBe(true);
+    });
+
+    it('should only evict toasts that do not outrank the new one', () => {
+      service = createServiceWithConfig({
+        maximumVisibleToasts: 1,
+        overflowStrategy: 'evict-oldest',
+      });
+      const criticalRef = service.danger('Critical', { priority: 'critical' });
+      const normalRef = service.info('Normal');
+
+      expect(service.visibleToasts().map((toast) => toast.id)).toEqual([criticalRef.id]);
+      expect(service.queuedToasts().map((toast) => toast.id)).toEqual([normalRef.id]);
+    });
+
+    it('should preempt instead of rejecting a more important toast', () => {
+      service = createServiceWithConfig({ maximumVisibleToasts: 1, overflowStrategy: 'reject' });
+      service.info('Normal');
+
+      expect(() => service.danger('Critical', { priority: 'critical' })).not.toThrow();
+      expect(service.queuedToasts().length).toBe(1);
+    });
+  });
+
   // ==========================================================================
   // Global Config Tests
   // ==========================================================================
@@ -222,6 +1058,191 @@ describe('ToastService', () => {
       // Default value is bottom-right
       expect(service.position()).toBe('bottom-right');
     });
+
+    it('should apply config overrides to new toasts', () => {
+      service.setConfigOverrides({ position: 'top-center', theme: 'dark' });
+
+      service.info('Test');
+
+      expect(service.position()).toBe('top-center');
+      expect(service.toasts()[0].position).toBe('top-center');
+      expect(service.toasts()[0].theme).toBe('dark');
+    });
+
+    it('should restore the provided config when overrides are cleared', () => {
+      service.setConfigOverrides({ position: 'top-center' });
+      service.setConfigOverrides({});
+
+      expect(service.position()).toBe('bottom-right');
+    });
+
+    it('should promote queued toasts when an override raises the limit', () => {
+      service = createServiceWithConfig({ maximumVisibleToasts: 1 });
+      service.info('First');
+      service.info('Second');
+
+      service.setConfigOverrides({ maximumVisibleToasts: 2 });
+
+      expect(service.queuedToasts().length).toBe(0);
+    });
+  });
+
+  // ==========================================================================
+  // Native Notification Tests
+  // ==========================================================================
+
+  describe('native notifications', () => {
+    let adapter: ToastNativeNotificationAdapter & { pageHidden: boolean };
+    let clickNotification: () => void;
+    const closeNotification = vi.fn();
+
+    function createServiceWithAdapter(config: ToastGlobalConfigPartial): ToastService {
+      service.dismissAll();
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({
+        providers: [
+          provideToastly(config),
+          { provide: TOAST_NATIVE_NOTIFICATION_ADAPTER, useValue: adapter },
+        ],
+      });
+      return TestBed.inject(ToastService);
+    }
+
+    beforeEach(() => {
+      adapter = {
+        pageHidden: true,
+        isPageHidden: () => adapter.pageHidden,
+        permission: () => 'granted',
+        requestPermission: vi.fn(() => Promise.resolve('granted' as const)),
+        show: vi.fn((_notification, onClick: () => void) => {
+          clickNotification = onClick;
+          return { close: closeNotification };
+        }),
+        focusWindow: vi.fn(),
+      };
+      closeNotification.mockClear();
+    });
+
+    it('should notify for toasts matching the type rule while the page is hidden', () => {
+      service = createServiceWithAdapter({ nativeFallback: { types: ['danger'] } });
+
+      service.danger('Payment failed', { title: 'Billing' });
+      service.info('Saved');
+
+      expect(adapter.show).toHaveBeenCalledTimes(1);
+      expect(adapter.show).toHaveBeenCalledWith(
+        {
+          title: 'Billing',
+          body: 'Payment failed',
+          tag: expect.any(String),
+          requireInteraction: false,
+        },
+        expect.any(Function)
+      );
+    });
+
+    it('should notify for toasts at or above the minimum priority', () => {
+      service = createServiceWithAdapter({ nativeFallback: { minPriority: 'high' } });
+
+      service.info('Low', { priority: 'low' });
+      service.info('Critical', { priority: 'critical' });
+
+      expect(adapter.show).toHaveBeenCalledTimes(1);
+      expect(adapter.show).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Critical', body: '' }),
+        expect.any(Function)
+      );
+    });
+
+    it('should not notify while the page is visible', () => {
+      adapter.pageHidden = false;
+      service = createServiceWithAdapter({ nativeFallback: { types: ['danger'] } });
+
+      service.danger('Payment failed');
+
+      expect(adapter.show).not.toHaveBeenCalled();
+    });
+
+    it('should strip formatting from the notification text', () => {
+      service = createServiceWithAdapter({});
+
+      service.danger('Deploy **failed** on `main`', {
+        messageFormat: 'markdown',
+        nativeFallback: true,
+      });
+      service.danger('Build <b>failed</b> &amp; stopped', {
+        messageFormat: 'html',
+        nativeFallback: true,
+      });
+
+      expect(adapter.show).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Deploy failed on main', body: '' }),
+        expect.any(Function)
+      );
+      expect(adapter.show).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Build failed & stopped' }),
+        expect.any(Function)
+      );
+    });
+
+    it('should let the toast flag override the global rules', () => {
+      service = createServiceWithAdapter({ nativeFallback: { types: ['danger'] } });
+
+      service.info('Build finished', { nativeFallback: true });
+      service.danger('Lint warning', { nativeFallback: false });
+
+      expect(adapter.show).toHaveBeenCalledTimes(1);
+      expect(adapter.show).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Build finished' }),
+        expect.any(Function)
+      );
+    });
+
+    it('should not notify by default', () => {
+      service = createServiceWithAdapter({});
+
+      service.danger('Payment failed', { priority: 'critical' });
+
+      expect(adapter.show).not.toHaveBeenCalled();
+    });
+
+    it('should focus the window and run the primary action on click', () => {
+      service = createServiceWithAdapter({});
+      const retry = vi.fn();
+      const actionSpy = vi.fn();
+      const toastRef = service.danger('Payment failed', {
+        nativeFallback: true,
+        actions: [
+          { label: 'Details', variant: 'secondary', onClick: vi.fn() },
+          { label: 'Retry', variant: 'primary', onClick: retry, dismissOnClick: true },
+        ],
+      });
+      toastRef.onAction().subscribe(actionSpy);
+
+      clickNotification();
+
+      expect(adapter.focusWindow).toHaveBeenCalled();
+      expect(retry).toHaveBeenCalled();
+      expect(actionSpy).toHaveBeenCalledWith(expect.objectContaining({ label: 'Retry' }));
+      expect(service.toasts().length).toBe(0);
+    });
+
+    it('should close the native notification when the toast is dismissed', () => {
+      service = createServiceWithAdapter({});
+      const toastRef = service.danger('Payment failed', { nativeFallback: true });
+
+      toastRef.dismiss();
+
+      expect(closeNotification).toHaveBeenCalled();
+    });
+
+    it('should expose the permission helpers', async () => {
+      service = createServiceWithAdapter({});
+
+      expect(service.nativeNotificationPermission()).toBe('granted');
+      await expect(service.requestNativeNotificationPermission()).resolves.toBe('granted');
+      expect(adapter.requestPermission).toHaveBeenCalled();
+    });
   });
 
   // ==========================================================================
@@ -230,13 +1251,13 @@ describe('ToastService', () => {
 
   describe('timer pause and resume', () => {
     it('should pause timer without error', () => {
-      const toastId = service.show({ message: 'Test', durationMs: 5000 });
+      const toastId = service.show({ message: 'Test', durationMs: 5000 }).id;
 
       expect(() => service.pauseTimer(toastId)).not.toThrow();
     });
 
     it('should resume timer without error', () => {
-      const toastId = service.show({ message: 'Test', durationMs: 5000 });
+      const toastId = service.show({ message: 'Test', durationMs: 5000 }).id;
 
       service.pauseTimer(toastId);
       expect(() => service.resumeTimer(toastId)).not.toThrow();
@@ -251,10 +1272,339 @@ describe('ToastService', () => {
     });
 
     it('should not resume timer for toast with durationMs 0', () => {
-      const toastId = service.show({ message: 'Test', durationMs: 0 });
+      const toastId = service.show({ message: 'Test', durationMs: 0 }).id;
 
       // Should not throw and should not schedule auto-dismiss
       expect(() => service.resumeTimer(toastId)).not.toThrow();
     });
+
+    describe('remaining time', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should only wait for the remaining time after resuming', () => {
+        const toastId = service.show({ message: 'Test', durationMs: 2000 }).id;
+
+        vi.advanceTimersByTime(1500);
+        service.pauseTimer(toastId);
+        vi.advanceTimersByTime(10000);
+        service.resumeTimer(toastId);
+
+        vi.advanceTimersByTime(499);
+        expect(service.toasts().length).toBe(1);
+
+        vi.advanceTimersByTime(1);
+        expect(service.toasts().length).toBe(0);
+      });
+
+      it('should not extend the lifetime across repeated hovers', () => {
+        const toastId = service.show({ message: 'Test', durationMs: 3000 }).id;
+
+        for (let i = 0; i < 5; i++) {
+          vi.advanceTimersByTime(500);
+          service.pauseTimer(toastId);
+          service.resumeTimer(toastId);
+        }
+        vi.advanceTimersByTime(500);
+
+        expect(service.toasts().length).toBe(0);
+      });
+
+      it('should expose the remaining time as a signal', () => {
+        const toastId = service.show({ message: 'Test', durationMs: 4000 }).id;
+        const remainingTime = service.remainingTime(toastId);
+
+        expect(remainingTime()).toBe(4000);
+
+        vi.advanceTimersByTime(1000);
+        service.pauseTimer(toastId);
+
+        expect(remainingTime()).toBe(3000);
+      });
+
+      it('should expose running state in timerStates', () => {
+        const toastId = service.show({ message: 'Test', durationMs: 4000 }).id;
+
+        expect(service.timerStates()[toastId].running).toBe(true);
+
+        service.pauseTimer(toastId);
+        expect(service.timerStates()[toastId].running).toBe(false);
+        expect(service.timerStates()[toastId].startedAt).toBeNull();
+
+        service.resumeTimer(toastId);
+        expect(service.timerStates()[toastId].running).toBe(true);
+      });
+
+      it('should ignore a second pause', () => {
+        const toastId = service.show({ message: 'Test', durationMs: 4000 }).id;
+
+        vi.advanceTimersByTime(1000);
+        service.pauseTimer(toastId);
+        vi.advanceTimersByTime(1000);
+        service.pauseTimer(toastId);
+
+        expect(service.remainingTime(toastId)()).toBe(3000);
+      });
+
+      it('should report 0 for toasts without a countdown', () => {
+        const toastId = service.show({ message: 'Test', durationMs: 0 }).id;
+
+        expect(service.remainingTime(toastId)()).toBe(0);
+        expect(service.timerStates()[toastId]).toBeUndefined();
+      });
+
+      it('should drop the timer state when the toast is dismissed', () => {
+        const toastId = service.show({ message: 'Test', durationMs: 4000 }).id;
+
+        service.dismiss(toastId);
+
+        expect(service.timerStates()[toastId]).toBeUndefined();
+      });
+    });
+  });
+
+  // ==========================================================================
+  // Page Activity Tests
+  // ==========================================================================
+
+  describe('page activity', () => {
+    let visibilityState: DocumentVisibilityState;
+
+    function setPageHidden(isHidden: boolean): void {
+      visibilityState = isHidden ? 'hidden' : 'visible';
+      document.dispatchEvent(new Event('visibilitychange'));
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      visibilityState = 'visible';
+      vi.spyOn(document, 'visibilityState', 'get').mockImplementation(() => visibilityState);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.useRealTimers();
+    });
+
+    it('should keep timers running while the page is hidden by default', () => {
+      service.info('Saved', { durationMs: 5000 });
+
+      setPageHidden(true);
+      vi.advanceTimersByTime(5000);
+
+      expect(service.toasts().length).toBe(0);
+    });
+
+    describe('with pauseOnPageHidden', () => {
+      beforeEach(() => {
+        service = createServiceWithConfig({ pauseOnPageHidden: true });
+      });
+
+      it('should pause all timers while the page is hidden, keeping the time left', () => {
+        service.info('First', { durationMs: 5000 });
+        service.info('Second', { durationMs: 8000 });
+        vi.advanceTimersByTime(2000);
+
+        setPageHidden(true);
+        vi.advanceTimersByTime(60000);
+        expect(service.toasts().length).toBe(2);
+
+        setPageHidden(false);
+        expect(service.remainingTime(service.toasts()[1].id)()).toBe(3000);
+        vi.advanceTimersByTime(3000);
+        expect(service.toasts().map((toast) => toast.message)).toEqual(['Second']);
+      });
+
+      it('should start new timers paused while the page is hidden', () => {
+        setPageHidden(true);
+        service.info('Saved', { durationMs: 5000 });
+
+        vi.advanceTimersByTime(10000);
+        expect(service.toasts().length).toBe(1);
+
+        setPageHidden(false);
+        vi.advanceTimersByTime(5000);
+        expect(service.toasts().length).toBe(0);
+      });
+
+      it('should keep toasts paused by hover paused', () => {
+        const toastId = service.info('Saved', { durationMs: 5000 }).id;
+        service.pauseTimer(toastId);
+
+        setPageHidden(true);
+        setPageHidden(false);
+
+        expect(service.timerStates()[toastId].running).toBe(false);
+      });
+
+      it('should not resume a hovered toast until the page is visible', () => {
+        const toastId = service.info('Saved', { durationMs: 5000 }).id;
+        service.pauseTimer(toastId);
+        setPageHidden(true);
+
+        service.resumeTimer(toastId);
+        expect(service.timerStates()[toastId].running).toBe(false);
+
+        setPageHidden(false);
+        expect(service.timerStates()[toastId].running).toBe(true);
+      });
+
+      it('should stop listening once the service is destroyed', () => {
+        const removeListenerSpy = vi.spyOn(document, 'removeEventListener');
+
+        TestBed.resetTestingModule();
+
+        expect(removeListenerSpy).toHaveBeenCalledWith('visibilitychange', expect.any(Function));
+        service = TestBed.inject(ToastService);
+      });
+    });
+
+    describe('with pauseOnWindowBlur', () => {
+      beforeEach(() => {
+        service = createServiceWithConfig({ pauseOnWindowBlur: true });
+      });
+
+      it('should pause all timers while the window is not focused', () => {
+        service.info('Saved', { durationMs: 5000 });
+
+        window.dispatchEvent(new Event('blur'));
+        vi.advanceTimersByTime(10000);
+        expect(service.toasts().length).toBe(1);
+
+        window.dispatchEvent(new Event('focus'));
+        vi.advanceTimersByTime(5000);
+        expect(service.toasts().length).toBe(0);
+      });
+
+      it('should keep toasts preempted during the pause paused until they are promoted', () => {
+        service = createServiceWithConfig({ pauseOnWindowBlur: true, maximumVisibleToasts: 1 });
+        const normalRef = service.info('Normal', { durationMs: 5000 });
+
+        window.dispatchEvent(new Event('blur'));
+        const highRef = service.warning('High', { priority: 'high', durationMs: 0 });
+        window.dispatchEvent(new Event('focus'));
+        vi.advanceTimersByTime(10000);
+
+        expect(service.timerStates()[normalRef.id].running).toBe(false);
+        expect(service.queuedToasts().map((toast) => toast.id)).toEqual([normalRef.id]);
+
+        highRef.dismiss();
+        expect(service.timerStates()[normalRef.id].running).toBe(true);
+      });
+
+      it('should stay paused until the page is both visible and focused', () => {
+        service = createServiceWithConfig({ pauseOnWindowBlur: true, pauseOnPageHidden: true });
+        service.info('Saved', { durationMs: 5000 });
+
+        window.dispatchEvent(new Event('blur'));
+        setPageHidden(true);
+        window.dispatchEvent(new Event('focus'));
+        vi.advanceTimersByTime(10000);
+        expect(service.toasts().length).toBe(1);
+
+        setPageHidden(false);
+        vi.advanceTimersByTime(5000);
+        expect(service.toasts().length).toBe(0);
+      });
+    });
+  });
+
+  // ==========================================================================
+  // Leave Animation Tests
+  // ==========================================================================
+
+  describe('leave animations', () => {
+    it('should remove dismissed toasts at once when no container renders them', () => {
+      const toastRef = service.show({ message: 'Saved' });
+
+      service.dismiss(toastRef.id);
+
+      expect(service.renderedToasts()).toEqual([]);
+      expect(service.exitingToastIds().size).toBe(0);
+    });
+
+    it('should keep dismissed toasts rendered until their exit completes', () => {
+      service.registerContainer('bottom-right');
+      const toastRef = service.show({ message: 'Saved' });
+      const afterDismissed = vi.fn();
+      toastRef.afterDismissed().subscribe(afterDismissed);
+
+      service.dismiss(toastRef.id);
+
+      expect(service.toasts()).toEqual([]);
+      expect(afterDismissed).toHaveBeenCalledWith('programmatic');
+      expect(service.renderedToasts().map((toast) => toast.id)).toEqual([toastRef.id]);
+      expect(service.exitingToastIds().has(toastRef.id)).toBe(true);
+
+      service.completeExit(toastRef.id);
+
+      expect(service.renderedToasts()).toEqual([]);
+      expect(service.exitingToastIds().size).toBe(0);
+    });
+
+    it('should keep exiting toasts in their place in the stack', () => {
+      service.registerContainer('bottom-right');
+      service.show({ message: 'First' });
+      const second = service.show({ message: 'Second' });
+      service.show({ message: 'Third' });
+      const renderedIds = (): string[] => service.renderedToasts().map((toast) => toast.id);
+      const order = renderedIds();
+
+      service.dismiss(second.id);
+      expect(renderedIds()).toEqual(order);
+
+      const fourth = service.show({ message: 'Fourth' });
+      expect(renderedIds().filter((toastId) => toastId !== fourth.id)).toEqual(order);
+    });
+
+    it('should keep all toasts rendered after dismissAll()', () => {
+      service.registerContainer('bottom-right');
+      service.show({ message: 'First' });
+      service.show({ message: 'Second' });
+      const order = service.renderedToasts().map((toast) => toast.id);
+
+      service.dismissAll();
+
+      expect(service.toasts()).toEqual([]);
+      expect(service.renderedToasts().map((toast) => toast.id)).toEqual(order);
+    });
+
+    it('should only keep toasts of positions with a container', () => {
+      service.registerContainer('top-left');
+      const toastRef = service.show({ message: 'Saved', position: 'bottom-right' });
+
+      service.dismiss(toastRef.id);
+
+      expect(service.renderedToasts()).toEqual([]);
+    });
+
+    it('should not keep queued toasts, which were never shown', () => {
+      service = createServiceWithConfig({ maximumVisibleToasts: 1, overflowStrategy: 'queue' });
+      service.registerContainer('bottom-right');
+      service.show({ message: 'Visible' });
+      const queuedRef = service.show({ message: 'Queued' });
+
+      service.dismiss(queuedRef.id);
+
+      expect(service.exitingToastIds().has(queuedRef.id)).toBe(false);
+    });
+
+    it('should drop exiting toasts when the last container of their position goes away', () => {
+      const unregisterFirst = service.registerContainer('bottom-right');
+      const unregisterSecond = service.registerContainer('bottom-right');
+      const toastRef = service.show({ message: 'Saved' });
+      service.dismiss(toastRef.id);
+
+      unregisterFirst();
+      expect(service.exitingToastIds().has(toastRef.id)).toBe(true);
+
+      unregisterSecond();
+      expect(service.renderedToasts()).toEqual([]);
+    });
   });
 });
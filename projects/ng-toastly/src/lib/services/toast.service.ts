@@ -11,23 +11,71 @@
  * ```
  */
 
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
 import {
   computed,
   DestroyRef,
   inject,
   Injectable,
+  PLATFORM_ID,
+  Signal,
   signal,
+  Type,
 } from '@angular/core';
 import {
   DEFAULT_TOAST_CONFIG,
-  PROGRESS_MAXIMUM_PERCENT,
-  PROGRESS_MINIMUM_PERCENT,
+  DEFAULT_TOAST_PRIORITY,
   TOAST_ID_PREFIX,
   TOAST_MINIMUM_DURATION_MS,
+  TOAST_PRIORITY_RANK,
 } from '../constants/toast.constants';
-import { TOAST_GLOBAL_CONFIG, ToastGlobalConfig } from '../types/toast-config.type';
+import { isObservable, Observable, Subject } from 'rxjs';
+import {
+  TOAST_GLOBAL_CONFIG,
+  ToastGlobalConfig,
+  ToastGlobalConfigPartial,
+} from '../types/toast-config.type';
+import { ToastComponentOptions } from '../types/toast-content.type';
 import { createToastError, TOAST_ERROR_MESSAGES } from '../types/toast-error.type';
-import { Toast, ToastPayload, ToastType } from '../types/toast.type';
+import {
+  TOAST_NATIVE_NOTIFICATION_ADAPTER,
+  ToastNativeNotificationHandle,
+  ToastNotificationPermission,
+} from '../types/toast-native.type';
+import {
+  ToastPromiseMessage,
+  ToastPromiseMessages,
+  ToastPromiseOptions,
+} from '../types/toast-promise.type';
+import {
+  Toast,
+  ToastAction,
+  ToastDismissReason,
+  ToastEvent,
+  ToastPayload,
+  ToastPosition,
+  ToastPriority,
+  ToastTimerState,
+  ToastType,
+  ToastUpdate,
+} from '../types/toast.type';
+import { renderToastMessageAsText } from '../utils/toast-message';
+import { validateProgressValue, validateToastPayload } from '../utils/toast-validation';
+import { ToastRef } from './toast-ref';
+
+/**
+ * Reasons all auto-dismiss timers are paused at once.
+ */
+type GlobalPauseSource = 'page-hidden' | 'window-blur';
+
+/**
+ * A dismissed toast that stays on screen while its leave animation plays.
+ */
+interface ExitingToast {
+  readonly toast: Toast;
+  /** Visible toast it followed in its position, to keep its place in the stack */
+  readonly previousToastId: string | undefined;
+}
 
 /**
  * Service for managing toast notifications throughout the application.
@@ -43,7 +91,22 @@ import { Toast, ToastPayload, ToastType } from '../types/toast.type';
 })
 export class ToastService {
   private readonly destroyRef = inject(DestroyRef);
-  private readonly globalConfig: ToastGlobalConfig;
+  private readonly providedConfig = inject(TOAST_GLOBAL_CONFIG, { optional: true });
+  private readonly nativeNotifications = inject(TOAST_NATIVE_NOTIFICATION_ADAPTER);
+
+  /**
+   * Temporary overrides on top of the provided configuration (e.g. per route).
+   */
+  private readonly configOverridesSignal = signal<ToastGlobalConfigPartial>({});
+
+  /**
+   * Effective configuration: defaults, then provided config, then overrides.
+   */
+  private readonly globalConfig = computed<ToastGlobalConfig>(() => ({
+    ...DEFAULT_TOAST_CONFIG,
+    ...this.providedConfig,
+    ...this.configOverridesSignal(),
+  }));
 
   /**
    * Internal counter for generating unique toast IDs.
@@ -56,59 +119,168 @@ export class ToastService {
    */
   private readonly activeTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
+  /**
+   * Map of references handed out for active toasts.
+   * Key: toast ID, Value: toast reference
+   */
+  private readonly toastRefs = new Map<string, ToastRef>();
+
+  /**
+   * Map of native notifications shown for active toasts.
+   * Key: toast ID, Value: notification handle
+   */
+  private readonly nativeNotificationHandles = new Map<string, ToastNativeNotificationHandle>();
+
+  /**
+   * Reasons all timers are currently paused (see `pauseOnPageHidden` and `pauseOnWindowBlur`).
+   */
+  private readonly globalPauseSources = new Set<GlobalPauseSource>();
+
+  /**
+   * IDs of the timers paused by a global pause, resumed once it ends.
+   */
+  private readonly globallyPausedIds = new Set<string>();
+
   /**
    * Internal writeable signal containing all active toasts.
    */
   private readonly toastsSignal = signal<readonly Toast[]>([]);
 
   /**
-   * Readonly signal exposing all active toasts.
+   * Internal writeable signal containing the IDs of toasts waiting for a free slot.
+   * Insertion order is the order in which they are promoted.
+   */
+  private readonly queuedToastIdsSignal = signal<ReadonlySet<string>>(new Set());
+
+  /**
+   * Internal writeable signal containing visibility limits set for specific positions.
+   * Positions without an entry use `maximumVisibleToasts`.
+   */
+  private readonly positionLimitsSignal = signal<Partial<Record<ToastPosition, number>>>({});
+
+  /**
+   * Internal writeable signal containing the countdown state of each timed toast.
+   * Key: toast ID, Value: timer snapshot
+   */
+  private readonly timerStatesSignal = signal<Readonly<Record<string, ToastTimerState>>>({});
+
+  /**
+   * Internal writeable signal containing the dismissed toasts playing their leave animation.
+   */
+  private readonly exitingToastsSignal = signal<readonly ExitingToast[]>([]);
+
+  /**
+   * Number of rendered containers per position.
+   * Dismissed toasts only wait for a leave animation where a container renders them.
+   */
+  private readonly containerCounts = new Map<ToastPosition, number>();
+
+  /**
+   * Source of lifecycle events.
+   */
+  private readonly eventsSubject = new Subject<ToastEvent>();
+
+  /**
+   * Readonly signal exposing all active toasts, including queued ones.
    */
   readonly toasts = this.toastsSignal.asReadonly();
 
   /**
-   * Computed signal returning only the visible toasts based on configuration.
+   * Readonly signal exposing the countdown state of each timed toast.
+   */
+  readonly timerStates = this.timerStatesSignal.asReadonly();
+
+  /**
+   * Computed signal returning only the toasts currently on screen.
    */
   readonly visibleToasts = computed<readonly Toast[]>(() => {
-    const allToasts = this.toastsSignal();
-    const maxVisible = this.globalConfig.maximumVisibleToasts;
+    const queuedIds = this.queuedToastIdsSignal();
+    return this.toastsSignal().filter((toast) => !queuedIds.has(toast.id));
+  });
+
+  /**
+   * Computed signal returning the toasts waiting for a free slot.
+   */
+  readonly queuedToasts = computed<readonly Toast[]>(() => {
+    const queuedIds = this.queuedToastIdsSignal();
+    return this.toastsSignal().filter((toast) => queuedIds.has(toast.id));
+  });
 
-    if (this.globalConfig.newestOnTop) {
-      return allToasts.slice(0, maxVisible);
+  /**
+   * Computed signal returning the toasts containers render: the visible toasts
+   * plus the dismissed toasts playing their leave animation, in their former place.
+   */
+  readonly renderedToasts = computed<readonly Toast[]>(() => {
+    const renderedToasts = [...this.visibleToasts()];
+
+    for (const { toast, previousToastId } of this.exitingToastsSignal()) {
+      // Moves to the top when the toast it followed has left the screen too
+      const previousIndex = renderedToasts.findIndex((current) => current.id === previousToastId);
+      renderedToasts.splice(previousIndex + 1, 0, toast);
     }
 
-    return allToasts.slice(-maxVisible);
+    return renderedToasts;
+  });
+
+  /**
+   * Computed signal returning the IDs of the dismissed toasts playing their leave animation.
+   */
+  readonly exitingToastIds = computed<ReadonlySet<string>>(
+    () => new Set(this.exitingToastsSignal().map(({ toast }) => toast.id))
+  );
+
+  /**
+   * Stream of toast lifecycle events (shown, updated and dismissed).
+   */
+  readonly events: Observable<ToastEvent> = this.eventsSubject.asObservable();
+
+  /**
+   * Computed signal returning active toasts keyed by their group.
+   * Toasts without a group are not included.
+   */
+  readonly toastsByGroup = computed<Readonly<Record<string, readonly Toast[]>>>(() => {
+    const groups: Record<string, Toast[]> = {};
+
+    for (const toast of this.toastsSignal()) {
+      if (toast.group !== undefined) {
+        (groups[toast.group] ??= []).push(toast);
+      }
+    }
+
+    return groups;
   });
 
   /**
    * Current position setting for the toast container.
    */
-  readonly position = computed(() => this.globalConfig.position);
+  readonly position = computed(() => this.globalConfig().position);
 
   /**
    * Whether to pause auto-dismiss on hover.
    */
-  readonly pauseOnHover = computed(() => this.globalConfig.pauseOnHover);
+  readonly pauseOnHover = computed(() => this.globalConfig().pauseOnHover);
 
   /**
    * Animation preset to use for toasts.
    */
-  readonly animationPreset = computed(() => this.globalConfig.animationPreset);
+  readonly animationPreset = computed(() => this.globalConfig().animationPreset);
 
   /**
    * Custom animation callbacks if provided.
    */
-  readonly customAnimation = computed(() => this.globalConfig.animation);
+  readonly customAnimation = computed(() => this.globalConfig().animation);
 
   constructor() {
-    // Merge provided config with defaults
-    const providedConfig = inject(TOAST_GLOBAL_CONFIG, { optional: true });
-    this.globalConfig = { ...DEFAULT_TOAST_CONFIG, ...providedConfig };
-
     // Register cleanup callback on service destruction
     this.destroyRef.onDestroy(() => {
       this.clearAllTimers();
+      this.closeAllNativeNotifications();
+      this.eventsSubject.complete();
     });
+
+    if (isPlatformBrowser(inject(PLATFORM_ID))) {
+      this.listenToPageActivity(inject(DOCUMENT));
+    }
   }
 
   // ==========================================================================
@@ -120,9 +292,9 @@ export class ToastService {
    *
    * @param message - The message to display
    * @param options - Additional toast options
-   * @returns The unique ID of the created toast
+   * @returns Reference to the created toast
    */
-  info(message: string, options?: Omit<ToastPayload, 'message' | 'type'>): string {
+  info(message: string, options?: Omit<ToastPayload, 'message' | 'type'>): ToastRef {
     return this.show({ ...options, message, type: 'info' });
   }
 
@@ -131,9 +303,9 @@ export class ToastService {
    *
    * @param message - The message to display
    * @param options - Additional toast options
-   * @returns The unique ID of the created toast
+   * @returns Reference to the created toast
    */
-  success(message: string, options?: Omit<ToastPayload, 'message' | 'type'>): string {
+  success(message: string, options?: Omit<ToastPayload, 'message' | 'type'>): ToastRef {
     return this.show({ ...options, message, type: 'success' });
   }
 
@@ -142,9 +314,9 @@ export class ToastService {
    *
    * @param message - The message to display
    * @param options - Additional toast options
-   * @returns The unique ID of the created toast
+   * @returns Reference to the created toast
    */
-  warning(message: string, options?: Omit<ToastPayload, 'message' | 'type'>): string {
+  warning(message: string, options?: Omit<ToastPayload, 'message' | 'type'>): ToastRef {
     return this.show({ ...options, message, type: 'warning' });
   }
 
@@ -153,9 +325,9 @@ export class ToastService {
    *
    * @param message - The message to display
    * @param options - Additional toast options
-   * @returns The unique ID of the created toast
+   * @returns Reference to the created toast
    */
-  danger(message: string, options?: Omit<ToastPayload, 'message' | 'type'>): string {
+  danger(message: string, options?: Omit<ToastPayload, 'message' | 'type'>): ToastRef {
     return this.show({ ...options, message, type: 'danger' });
   }
 
@@ -165,38 +337,216 @@ export class ToastService {
 
   /**
    * Shows a toast notification with the provided payload.
+   * When the maximum number of visible toasts is reached, the configured
+   * `overflowStrategy` decides whether the toast is queued, replaces the
+   * oldest one or is rejected.
    *
    * @param payload - Configuration for the toast
-   * @returns The unique ID of the created toast
-   * @throws ToastError if validation fails
+   * @returns Reference to the created toast
+   * @throws ToastError if validation fails or the toast is rejected
    */
-  show(payload: ToastPayload): string {
-    this.validatePayload(payload);
+  show(payload: ToastPayload): ToastRef {
+    validateToastPayload(payload);
 
-    const toast = this.createToastFromPayload(payload);
+    return this.showToast(this.createToastFromPayload(payload));
+  }
 
-    this.addToast(toast);
-    this.scheduleAutoDismissIfNeeded(toast);
+  /**
+   * Shows a toast that renders a component instead of the title and message.
+   * The toast keeps its frame, close button, timer and ARIA role. The component
+   * can inject `TOAST_COMPONENT_CONTEXT` to read the toast and dismiss it.
+   *
+   * @param component - The component to render
+   * @param options - Component inputs and toast configuration
+   * @returns Reference to the created toast
+   * @throws ToastError if validation fails or the toast is rejected
+   */
+  showComponent(component: Type<unknown>, options: ToastComponentOptions = {}): ToastRef {
+    const { inputs, message, ...payload } = options;
+    const toastPayload: ToastPayload = { ...payload, message: message ?? '' };
+    validateToastPayload(toastPayload);
 
-    return toast.id;
+    return this.showToast({
+      ...this.createToastFromPayload(toastPayload),
+      // Auto-dedupe compares text, which component toasts usually don't have
+      dedupeKey: payload.dedupeKey,
+      component,
+      componentInputs: inputs ?? {},
+    });
   }
 
   /**
    * Dismisses a specific toast by its ID.
+   * Queued toasts are promoted into the freed slot.
    *
    * @param toastId - The unique ID of the toast to dismiss
+   * @param reason - Why the toast is being dismissed (reported by ToastRef.afterDismissed)
    */
-  dismiss(toastId: string): void {
-    this.clearTimerForToast(toastId);
-    this.removeToast(toastId);
+  dismiss(toastId: string, reason: ToastDismissReason = 'programmatic'): void {
+    this.closeToast(toastId, reason);
+    this.promoteQueuedToasts();
   }
 
   /**
-   * Dismisses all currently active toasts.
+   * Dismisses all currently active toasts, including queued ones.
    */
   dismissAll(): void {
+    const dismissedToasts = this.toastsSignal();
+
+    this.startExit(dismissedToasts);
     this.clearAllTimers();
+    this.closeAllNativeNotifications();
     this.toastsSignal.set([]);
+    this.queuedToastIdsSignal.set(new Set());
+
+    this.toastRefs.forEach((toastRef) => {
+      toastRef.notifyDismissed('programmatic');
+    });
+    this.toastRefs.clear();
+
+    dismissedToasts.forEach((toast) => {
+      this.eventsSubject.next({ type: 'dismissed', toast, reason: 'programmatic' });
+    });
+  }
+
+  /**
+   * Dismisses all toasts in a group, including queued ones.
+   *
+   * @param group - The group to dismiss
+   * @param reason - Why the toasts are being dismissed
+   */
+  dismissGroup(group: string, reason: ToastDismissReason = 'programmatic'): void {
+    this.dismissMatching((toast) => toast.group === group, reason);
+  }
+
+  /**
+   * Dismisses all toasts carrying a tag, including queued ones.
+   *
+   * @param tag - The tag to match
+   * @param reason - Why the toasts are being dismissed
+   */
+  dismissByTag(tag: string, reason: ToastDismissReason = 'programmatic'): void {
+    this.dismissMatching((toast) => this.hasTag(toast, tag), reason);
+  }
+
+  /**
+   * Returns the active toasts carrying a tag.
+   *
+   * @param tag - The tag to match
+   */
+  getByTag(tag: string): readonly Toast[] {
+    return this.toastsSignal().filter((toast) => this.hasTag(toast, tag));
+  }
+
+  /**
+   * Applies changes to a toast that is already on screen.
+   * The toast keeps its ID and place in the stack. Changing `durationMs`
+   * restarts the auto-dismiss timer with the new duration.
+   *
+   * @param toastId - The unique ID of the toast
+   * @param changes - Properties to change; omitted properties are kept
+   * @throws ToastError if validation fails or the toast does not exist
+   */
+  update(toastId: string, changes: ToastUpdate): void {
+    validateToastPayload(changes);
+
+    const currentToast = this.findToast(toastId);
+    if (!currentToast) {
+      throw createToastError(
+        'TOAST_NOT_FOUND',
+        TOAST_ERROR_MESSAGES.TOAST_NOT_FOUND,
+        `Received: ${toastId}`
+      );
+    }
+
+    const updatedToast = this.applyToastUpdate(currentToast, changes);
+
+    this.toastsSignal.update((toasts) =>
+      toasts.map((toast) => (toast.id === toastId ? updatedToast : toast))
+    );
+
+    if (changes.durationMs !== undefined) {
+      this.restartTimer(updatedToast);
+    }
+
+    this.eventsSubject.next({ type: 'updated', toast: updatedToast });
+  }
+
+  /**
+   * Notifies listeners that an action button of a toast was clicked.
+   * Dismisses the toast when the action has `dismissOnClick` set.
+   *
+   * @param toastId - The unique ID of the toast
+   * @param action - The clicked action
+   */
+  handleAction(toastId: string, action: ToastAction): void {
+    this.toastRefs.get(toastId)?.notifyAction(action);
+
+    if (action.dismissOnClick) {
+      this.dismiss(toastId, 'action');
+    }
+  }
+
+  /**
+   * Shows a loading toast bound to an async operation.
+   * The toast changes in place to success or danger once the operation settles.
+   * If the overflow strategy rejects the toast, the result still settles like the source.
+   *
+   * @example
+   * ```typescript
+   * await toastService.promise(saveProject(), {
+   *   loading: 'Saving project...',
+   *   success: (project) => `${project.name} saved`,
+   *   error: 'Could not save the project',
+   * });
+   * ```
+   *
+   * @param source - Promise to track
+   * @param messages - Messages for the loading, success and error states
+   * @param options - Additional toast options
+   * @returns A promise that settles like the source
+   */
+  promise<T>(
+    source: Promise<T>,
+    messages: ToastPromiseMessages<T>,
+    options?: ToastPromiseOptions
+  ): Promise<T>;
+  /**
+   * Shows a loading toast for every subscription to an observable.
+   * The toast settles on the first emitted value or on error, and is dismissed
+   * if the subscriber unsubscribes or the source completes before that.
+   *
+   * @param source - Observable to track
+   * @param messages - Messages for the loading, success and error states
+   * @param options - Additional toast options
+   * @returns An observable that mirrors the source
+   */
+  promise<T>(
+    source: Observable<T>,
+    messages: ToastPromiseMessages<T>,
+    options?: ToastPromiseOptions
+  ): Observable<T>;
+  promise<T>(
+    source: Promise<T> | Observable<T>,
+    messages: ToastPromiseMessages<T>,
+    options: ToastPromiseOptions = {}
+  ): Promise<T> | Observable<T> {
+    if (isObservable(source)) {
+      return this.trackObservable(source, messages, options);
+    }
+
+    const toastRef = this.showLoadingToast(messages, options);
+
+    return source.then(
+      (value) => {
+        this.settlePromiseToast(toastRef, 'success', messages.success, value, options);
+        return value;
+      },
+      (error: unknown) => {
+        this.settlePromiseToast(toastRef, 'danger', messages.error, error, options);
+        throw error;
+      }
+    );
   }
 
   /**
@@ -206,7 +556,7 @@ export class ToastService {
    * @param progressPercent - New progress value (0-100)
    */
   updateProgress(toastId: string, progressPercent: number): void {
-    this.validateProgressValue(progressPercent);
+    validateProgressValue(progressPercent);
 
     this.toastsSignal.update((toasts) =>
       toasts.map((toast) =>
@@ -217,56 +567,146 @@ export class ToastService {
 
   /**
    * Pauses the auto-dismiss timer for a specific toast.
+   * The time left is kept so that resuming continues where it stopped.
    * Useful for hover interactions.
    *
    * @param toastId - The unique ID of the toast
    */
   pauseTimer(toastId: string): void {
-    this.clearTimerForToast(toastId);
+    const timerState = this.timerStatesSignal()[toastId];
+    if (!timerState?.running || timerState.startedAt === null) {
+      return;
+    }
+
+    this.clearTimeoutHandle(toastId);
+
+    const elapsedMs = Date.now() - timerState.startedAt;
+    this.setTimerState(toastId, {
+      ...timerState,
+      remainingMs: Math.max(timerState.remainingMs - elapsedMs, 0),
+      running: false,
+      startedAt: null,
+    });
   }
 
   /**
    * Resumes the auto-dismiss timer for a specific toast.
+   * Only the time left when the timer was paused is waited for.
+   * Queued toasts stay paused until they are opened.
    *
    * @param toastId - The unique ID of the toast
    */
   resumeTimer(toastId: string): void {
-    const toast = this.toastsSignal().find((t) => t.id === toastId);
-    if (toast && toast.durationMs > 0) {
-      this.scheduleAutoDismissIfNeeded(toast);
+    const timerState = this.timerStatesSignal()[toastId];
+    if (!timerState || timerState.running || this.queuedToastIdsSignal().has(toastId)) {
+      return;
+    }
+
+    if (this.globalPauseSources.size > 0) {
+      this.globallyPausedIds.add(toastId); // Resumed once the page is active again
+      return;
     }
+
+    this.startTimer(toastId, timerState.remainingMs, timerState.durationMs);
   }
 
-  // ==========================================================================
-  // PRIVATE - Validation
-  // ==========================================================================
+  /**
+   * Sets how many toasts may be visible at once in a position.
+   * Used by containers with a `maxVisible` input; pass `undefined` to fall
+   * back to `maximumVisibleToasts`. Queued toasts are promoted if the new
+   * limit leaves room for them.
+   *
+   * @param position - The position to limit
+   * @param limit - Maximum number of visible toasts, or undefined to reset
+   */
+  setVisibleLimit(position: ToastPosition, limit: number | undefined): void {
+    this.positionLimitsSignal.update((limits) => {
+      const { [position]: _previous, ...otherLimits } = limits;
+      return limit === undefined ? otherLimits : { ...otherLimits, [position]: limit };
+    });
 
-  private validatePayload(payload: ToastPayload): void {
-    if (payload.durationMs !== undefined && payload.durationMs < 0) {
-      throw createToastError(
-        'INVALID_DURATION',
-        TOAST_ERROR_MESSAGES.INVALID_DURATION,
-        `Received: ${payload.durationMs}ms`
+    this.promoteQueuedToasts();
+  }
+
+  /**
+   * Registers a container rendering a position. Toasts dismissed in that
+   * position stay in `renderedToasts` until `completeExit()` is called,
+   * so that their leave animation can play.
+   *
+   * @param position - The position the container renders
+   * @returns Function that unregisters the container
+   */
+  registerContainer(position: ToastPosition): () => void {
+    this.containerCounts.set(position, (this.containerCounts.get(position) ?? 0) + 1);
+
+    return () => {
+      const remainingCount = (this.containerCounts.get(position) ?? 1) - 1;
+      if (remainingCount > 0) {
+        this.containerCounts.set(position, remainingCount);
+        return;
+      }
+
+      // No container is left to finish the leave animations
+      this.containerCounts.delete(position);
+      this.exitingToastsSignal.update((exitingToasts) =>
+        exitingToasts.filter(({ toast }) => toast.position !== position)
       );
-    }
+    };
+  }
 
-    if (payload.progressPercent !== undefined) {
-      this.validateProgressValue(payload.progressPercent);
+  /**
+   * Removes a dismissed toast from the screen once its leave animation has finished.
+   *
+   * @param toastId - The unique ID of the dismissed toast
+   */
+  completeExit(toastId: string): void {
+    if (!this.exitingToastIds().has(toastId)) {
+      return;
     }
+
+    this.exitingToastsSignal.update((exitingToasts) =>
+      exitingToasts.filter(({ toast }) => toast.id !== toastId)
+    );
   }
 
-  private validateProgressValue(progressPercent: number): void {
-    const isValidProgress =
-      progressPercent >= PROGRESS_MINIMUM_PERCENT &&
-      progressPercent <= PROGRESS_MAXIMUM_PERCENT;
+  /**
+   * Applies overrides on top of the global configuration, replacing any
+   * previous overrides. Used for per-route defaults; pass `{}` to restore
+   * the provided configuration. Toasts already shown keep their settings.
+   *
+   * @param overrides - Configuration values to override
+   */
+  setConfigOverrides(overrides: ToastGlobalConfigPartial): void {
+    this.configOverridesSignal.set(overrides);
+    this.promoteQueuedToasts();
+  }
 
-    if (!isValidProgress) {
-      throw createToastError(
-        'INVALID_PROGRESS_VALUE',
-        TOAST_ERROR_MESSAGES.INVALID_PROGRESS_VALUE,
-        `Received: ${progressPercent}%`
-      );
-    }
+  /**
+   * Returns the permission to show native notifications (see `nativeFallback`).
+   */
+  nativeNotificationPermission(): ToastNotificationPermission {
+    return this.nativeNotifications.permission();
+  }
+
+  /**
+   * Asks the user for permission to show native notifications.
+   * Browsers only allow this in response to a user gesture, such as a click.
+   *
+   * @returns The permission after the user answered
+   */
+  requestNativeNotificationPermission(): Promise<ToastNotificationPermission> {
+    return this.nativeNotifications.requestPermission();
+  }
+
+  /**
+   * Returns a signal with the time left before a toast auto-dismisses.
+   * The value is measured when the countdown starts, pauses or resumes,
+   * and is 0 for toasts without a countdown.
+   *
+   * @param toastId - The unique ID of the toast
+   */
+  remainingTime(toastId: string): Signal<number> {
+    return computed(() => this.timerStatesSignal()[toastId]?.remainingMs ?? 0);
   }
 
   // ==========================================================================
@@ -275,27 +715,98 @@ export class ToastService {
 
   private createToastFromPayload(payload: ToastPayload): Toast {
     const toastId = this.generateToastId();
-    const toastType: ToastType = payload.type ?? this.globalConfig.defaultType;
+    const toastType: ToastType = payload.type ?? this.globalConfig().defaultType;
     const durationMs = this.resolveDuration(payload.durationMs);
 
     // Resolve position: Payload > Global Config
-    const position = payload.position ?? this.globalConfig.position;
+    const position = payload.position ?? this.globalConfig().position;
+    const priority = payload.priority ?? DEFAULT_TOAST_PRIORITY;
 
     return {
       id: toastId,
       createdAt: Date.now(),
       message: payload.message,
+      messageFormat: payload.messageFormat ?? 'text',
       title: payload.title,
       type: toastType,
-      theme: payload.theme ?? this.globalConfig.theme,
+      theme: payload.theme ?? this.globalConfig().theme,
       durationMs,
-      dismissible: payload.dismissible ?? this.globalConfig.dismissibleByDefault,
+      dismissible: this.resolveDismissible(
+        priority,
+        payload.dismissible ?? this.globalConfig().dismissibleByDefault
+      ),
       actions: payload.actions ?? [],
       styleClass: payload.styleClass,
       iconTemplate: payload.iconTemplate,
+      contentTemplate: payload.contentTemplate,
       avatarUrl: payload.avatarUrl,
       progressPercent: payload.progressPercent,
+      showCountdown: payload.showCountdown ?? this.globalConfig().showCountdown,
+      swipeToDismiss: payload.swipeToDismiss ?? this.globalConfig().swipeToDismiss,
       position,
+      dedupeKey: this.resolveDedupeKey(payload, toastType),
+      repeatCount: 1,
+      priority,
+      group: payload.group,
+      tags: payload.tags ?? [],
+      dismissOnNavigation: payload.dismissOnNavigation ?? this.globalConfig().dismissOnNavigation,
+      persist: payload.persist ?? false,
+      syncAcrossTabs: payload.syncAcrossTabs ?? false,
+      nativeFallback: payload.nativeFallback,
+      animation: payload.animation,
+    };
+  }
+
+  private resolveDismissible(priority: ToastPriority, dismissible: boolean): boolean {
+    // Critical toasts can always be closed so they never trap the user
+    return priority === 'critical' || dismissible;
+  }
+
+  private resolveDedupeKey(payload: ToastPayload, toastType: ToastType): string | undefined {
+    if (payload.dedupeKey !== undefined) {
+      return payload.dedupeKey;
+    }
+
+    if (!this.globalConfig().autoDedupe) {
+      return undefined;
+    }
+
+    return [toastType, payload.title ?? '', payload.message].join('|');
+  }
+
+  private applyToastUpdate(toast: Toast, changes: ToastUpdate): Toast {
+    const durationMs =
+      changes.durationMs === undefined
+        ? toast.durationMs
+        : this.resolveDuration(changes.durationMs);
+
+    return {
+      ...toast,
+      message: changes.message ?? toast.message,
+      messageFormat: changes.messageFormat ?? toast.messageFormat,
+      title: changes.title ?? toast.title,
+      type: changes.type ?? toast.type,
+      theme: changes.theme ?? toast.theme,
+      durationMs,
+      dismissible: this.resolveDismissible(
+        toast.priority ?? DEFAULT_TOAST_PRIORITY,
+        changes.dismissible ?? toast.dismissible
+      ),
+      actions: changes.actions ?? toast.actions,
+      styleClass: changes.styleClass ?? toast.styleClass,
+      iconTemplate: changes.iconTemplate ?? toast.iconTemplate,
+      contentTemplate: changes.contentTemplate ?? toast.contentTemplate,
+      avatarUrl: changes.avatarUrl ?? toast.avatarUrl,
+      progressPercent: changes.progressPercent ?? toast.progressPercent,
+      showCountdown: changes.showCountdown ?? toast.showCountdown,
+      swipeToDismiss: changes.swipeToDismiss ?? toast.swipeToDismiss,
+      group: changes.group ?? toast.group,
+      tags: changes.tags ?? toast.tags,
+      dismissOnNavigation: changes.dismissOnNavigation ?? toast.dismissOnNavigation,
+      persist: changes.persist ?? toast.persist,
+      syncAcrossTabs: changes.syncAcrossTabs ?? toast.syncAcrossTabs,
+      nativeFallback: changes.nativeFallback ?? toast.nativeFallback,
+      animation: changes.animation ?? toast.animation,
     };
   }
 
@@ -306,7 +817,7 @@ export class ToastService {
 
   private resolveDuration(providedDurationMs: number | undefined): number {
     if (providedDurationMs === undefined) {
-      return this.globalConfig.defaultDurationMs;
+      return this.globalConfig().defaultDurationMs;
     }
 
     if (providedDurationMs === 0) {
@@ -316,23 +827,443 @@ export class ToastService {
     return Math.max(providedDurationMs, TOAST_MINIMUM_DURATION_MS);
   }
 
+  // ==========================================================================
+  // PRIVATE - Promise Toasts
+  // ==========================================================================
+
+  private trackObservable<T>(
+    source: Observable<T>,
+    messages: ToastPromiseMessages<T>,
+    options: ToastPromiseOptions
+  ): Observable<T> {
+    return new Observable<T>((subscriber) => {
+      const toastRef = this.showLoadingToast(messages, options);
+      let isSettled = false;
+
+      const subscription = source.subscribe({
+        next: (value) => {
+          if (!isSettled) {
+            isSettled = true;
+            this.settlePromiseToast(toastRef, 'success', messages.success, value, options);
+          }
+          subscriber.next(value);
+        },
+        error: (error: unknown) => {
+          isSettled = true;
+          this.settlePromiseToast(toastRef, 'danger', messages.error, error, options);
+          subscriber.error(error);
+        },
+        complete: () => {
+          subscriber.complete();
+        },
+      });
+
+      return () => {
+        subscription.unsubscribe();
+        if (!isSettled) {
+          toastRef?.dismiss();
+        }
+      };
+    });
+  }
+
+  /**
+   * Returns null when the overflow strategy rejects the toast, so that the
+   * operation is still tracked and its outcome reaches the caller.
+   */
+  private showLoadingToast<T>(
+    messages: ToastPromiseMessages<T>,
+    options: ToastPromiseOptions
+  ): ToastRef | null {
+    try {
+      return this.show({
+        ...options,
+        message: messages.loading,
+        type: 'loading',
+        durationMs: 0,
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  private settlePromiseToast<TInput>(
+    toastRef: ToastRef | null,
+    type: ToastType,
+    message: ToastPromiseMessage<TInput>,
+    input: TInput,
+    options: ToastPromiseOptions
+  ): void {
+    if (!toastRef || !this.findToast(toastRef.id)) {
+      return; // Rejected, or dismissed while the operation was pending
+    }
+
+    const durationMs = options.durationMs ?? this.globalConfig().defaultDurationMs;
+    const resolvedMessage = typeof message === 'function' ? message(input) : message;
+    this.update(toastRef.id, { type, message: resolvedMessage, durationMs });
+  }
+
   // ==========================================================================
   // PRIVATE - Toast Collection Management
   // ==========================================================================
 
+  /**
+   * Runs a created toast through deduplication and overflow handling,
+   * then adds it to the stack.
+   */
+  private showToast(toast: Toast): ToastRef {
+    const duplicateToast = this.findDuplicate(toast);
+    const duplicateRef = duplicateToast && this.toastRefs.get(duplicateToast.id);
+    if (duplicateToast && duplicateRef) {
+      this.handleDuplicate(duplicateToast);
+      return duplicateRef;
+    }
+
+    const canOpen = this.makeRoomFor(toast);
+    const toastRef = new ToastRef(toast.id, this);
+    this.toastRefs.set(toast.id, toastRef);
+
+    this.addToast(toast);
+
+    if (canOpen) {
+      this.openToast(toast);
+    } else {
+      this.queuedToastIdsSignal.update((queuedIds) => new Set(queuedIds).add(toast.id));
+    }
+
+    return toastRef;
+  }
+
+  private findToast(toastId: string): Toast | undefined {
+    return this.toastsSignal().find((toast) => toast.id === toastId);
+  }
+
+  /**
+   * Inserts a toast ahead of all lower-priority toasts.
+   * Within the same priority, `newestOnTop` decides the order.
+   */
   private addToast(toast: Toast): void {
+    const rank = this.priorityRank(toast);
+
     this.toastsSignal.update((currentToasts) => {
-      if (this.globalConfig.newestOnTop) {
-        return [toast, ...currentToasts];
+      const insertIndex = this.globalConfig().newestOnTop
+        ? currentToasts.findIndex((current) => this.priorityRank(current) <= rank)
+        : currentToasts.findIndex((current) => this.priorityRank(current) < rank);
+
+      if (insertIndex === -1) {
+        return [...currentToasts, toast];
       }
-      return [...currentToasts, toast];
+
+      return [...currentToasts.slice(0, insertIndex), toast, ...currentToasts.slice(insertIndex)];
     });
   }
 
+  private priorityRank(toast: Toast): number {
+    return TOAST_PRIORITY_RANK[toast.priority ?? DEFAULT_TOAST_PRIORITY];
+  }
+
   private removeToast(toastId: string): void {
     this.toastsSignal.update((currentToasts) =>
       currentToasts.filter((toast) => toast.id !== toastId)
     );
+    this.removeFromQueue(toastId);
+  }
+
+  private closeToast(toastId: string, reason: ToastDismissReason): void {
+    const toast = this.findToast(toastId);
+
+    if (toast) {
+      this.startExit([toast]);
+    }
+
+    this.clearTimerForToast(toastId);
+    this.closeNativeNotification(toastId);
+    this.removeToast(toastId);
+    this.releaseToastRef(toastId, reason);
+
+    if (toast) {
+      this.eventsSubject.next({ type: 'dismissed', toast, reason });
+    }
+  }
+
+  private openToast(toast: Toast): void {
+    if (this.timerStatesSignal()[toast.id]) {
+      // Preempted toasts continue their countdown where it stopped
+      this.resumeTimer(toast.id);
+    } else {
+      this.scheduleAutoDismissIfNeeded(toast);
+    }
+
+    this.toastRefs.get(toast.id)?.notifyOpened();
+    this.showNativeNotificationIfHidden(toast);
+    this.eventsSubject.next({ type: 'shown', toast });
+  }
+
+  private releaseToastRef(toastId: string, reason: ToastDismissReason): void {
+    const toastRef = this.toastRefs.get(toastId);
+    if (toastRef) {
+      this.toastRefs.delete(toastId);
+      toastRef.notifyDismissed(reason);
+    }
+  }
+
+  private dismissMatching(predicate: (toast: Toast) => boolean, reason: ToastDismissReason): void {
+    const matchingIds = this.toastsSignal()
+      .filter(predicate)
+      .map((toast) => toast.id);
+
+    matchingIds.forEach((toastId) => this.closeToast(toastId, reason));
+    this.promoteQueuedToasts();
+  }
+
+  private hasTag(toast: Toast, tag: string): boolean {
+    return toast.tags?.includes(tag) ?? false;
+  }
+
+  // ==========================================================================
+  // PRIVATE - Deduplication
+  // ==========================================================================
+
+  private findDuplicate(toast: Toast): Toast | undefined {
+    if (toast.dedupeKey === undefined) {
+      return undefined;
+    }
+
+    return this.toastsSignal().find((activeToast) => activeToast.dedupeKey === toast.dedupeKey);
+  }
+
+  private handleDuplicate(duplicateToast: Toast): void {
+    switch (this.globalConfig().dedupeStrategy) {
+      case 'ignore':
+        return;
+      case 'refresh':
+        this.restartTimer(duplicateToast);
+        return;
+      case 'count':
+        this.toastsSignal.update((toasts) =>
+          toasts.map((toast) =>
+            toast.id === duplicateToast.id
+              ? { ...toast, repeatCount: (toast.repeatCount ?? 1) + 1 }
+              : toast
+          )
+        );
+        this.restartTimer(duplicateToast);
+        return;
+    }
+  }
+
+  // ==========================================================================
+  // PRIVATE - Overflow Handling
+  // ==========================================================================
+
+  private visibleLimitFor(position: ToastPosition): number {
+    return this.positionLimitsSignal()[position] ?? this.globalConfig().maximumVisibleToasts;
+  }
+
+  private visibleToastsAt(position: ToastPosition): readonly Toast[] {
+    return this.visibleToasts().filter((toast) => toast.position === position);
+  }
+
+  private hasFreeSlot(position: ToastPosition): boolean {
+    return this.visibleToastsAt(position).length < this.visibleLimitFor(position);
+  }
+
+  /**
+   * Applies the overflow strategy when no slot is free in the toast's position.
+   * A toast that outranks a visible one pushes it back into the queue instead.
+   * Returns whether the toast can be opened right away.
+   */
+  private makeRoomFor(toast: Toast): boolean {
+    if (this.hasFreeSlot(toast.position)) {
+      return true;
+    }
+
+    const { overflowStrategy } = this.globalConfig();
+    const leastImportantToast = this.findLeastImportantVisibleToast(toast.position);
+    const rank = this.priorityRank(toast);
+
+    if (overflowStrategy === 'evict-oldest') {
+      if (leastImportantToast && this.priorityRank(leastImportantToast) <= rank) {
+        this.closeToast(leastImportantToast.id, 'evicted');
+        return true;
+      }
+      return false; // Never evict a more important toast; wait instead
+    }
+
+    if (leastImportantToast && this.priorityRank(leastImportantToast) < rank) {
+      this.demoteToQueue(leastImportantToast);
+      return true;
+    }
+
+    switch (overflowStrategy) {
+      case 'reject':
+        throw createToastError(
+          'MAXIMUM_TOASTS_EXCEEDED',
+          TOAST_ERROR_MESSAGES.MAXIMUM_TOASTS_EXCEEDED,
+          `Limit: ${this.visibleLimitFor(toast.position)} in ${toast.position}`
+        );
+      case 'queue':
+        return false;
+    }
+  }
+
+  /**
+   * Returns the visible toast with the lowest priority, preferring the oldest.
+   */
+  private findLeastImportantVisibleToast(position: ToastPosition): Toast | undefined {
+    const visibleToasts = this.visibleToastsAt(position);
+    if (visibleToasts.length === 0) {
+      return undefined;
+    }
+
+    const lowestRank = Math.min(...visibleToasts.map((toast) => this.priorityRank(toast)));
+    const candidates = visibleToasts.filter((toast) => this.priorityRank(toast) === lowestRank);
+
+    return this.globalConfig().newestOnTop ? candidates[candidates.length - 1] : candidates[0];
+  }
+
+  private demoteToQueue(toast: Toast): void {
+    this.pauseTimer(toast.id);
+    // Resumed when promoted, not when a global pause ends
+    this.globallyPausedIds.delete(toast.id);
+    this.queuedToastIdsSignal.update((queuedIds) => new Set(queuedIds).add(toast.id));
+  }
+
+  /**
+   * Opens queued toasts where slots are free, highest priority first.
+   */
+  private promoteQueuedToasts(): void {
+    const queuedToasts = [...this.queuedToastIdsSignal()]
+      .map((toastId) => this.findToast(toastId))
+      .filter((toast): toast is Toast => toast !== undefined)
+      .sort((first, second) => this.priorityRank(second) - this.priorityRank(first));
+
+    for (const toast of queuedToasts) {
+      if (!this.hasFreeSlot(toast.position)) {
+        continue;
+      }
+
+      this.removeFromQueue(toast.id);
+      this.openToast(toast);
+    }
+  }
+
+  private removeFromQueue(toastId: string): void {
+    if (!this.queuedToastIdsSignal().has(toastId)) {
+      return;
+    }
+
+    this.queuedToastIdsSignal.update((queuedIds) => {
+      const remainingIds = new Set(queuedIds);
+      remainingIds.delete(toastId);
+      return remainingIds;
+    });
+  }
+
+  // ==========================================================================
+  // PRIVATE - Leave Animations
+  // ==========================================================================
+
+  /**
+   * Keeps dismissed toasts on screen where a container plays their leave animation.
+   * Must run before the toasts are removed. Queued toasts were never shown and leave at once.
+   */
+  private startExit(toasts: readonly Toast[]): void {
+    const exitingToasts = toasts.flatMap((toast): ExitingToast[] => {
+      if (!this.containerCounts.has(toast.position)) {
+        return [];
+      }
+
+      const toastsAtPosition = this.visibleToastsAt(toast.position);
+      const index = toastsAtPosition.findIndex((current) => current.id === toast.id);
+
+      return index === -1 ? [] : [{ toast, previousToastId: toastsAtPosition[index - 1]?.id }];
+    });
+
+    if (exitingToasts.length > 0) {
+      this.exitingToastsSignal.update((current) => [...current, ...exitingToasts]);
+    }
+  }
+
+  // ==========================================================================
+  // PRIVATE - Native Notifications
+  // ==========================================================================
+
+  private showNativeNotificationIfHidden(toast: Toast): void {
+    if (!this.shouldNotifyNatively(toast)) {
+      return;
+    }
+
+    const handle = this.nativeNotifications.show(
+      {
+        title: toast.title ?? this.toPlainText(toast),
+        body: toast.title ? this.toPlainText(toast) : '',
+        tag: toast.id,
+        requireInteraction: toast.durationMs === 0,
+      },
+      () => this.handleNativeNotificationClick(toast.id)
+    );
+
+    if (handle) {
+      this.nativeNotificationHandles.set(toast.id, handle);
+    }
+  }
+
+  /**
+   * A toast qualifies through its own `nativeFallback` flag, or else through
+   * the global type and priority rules.
+   */
+  private shouldNotifyNatively(toast: Toast): boolean {
+    const canNotify = toast.nativeFallback !== false && toast.message !== '';
+    if (!canNotify || !this.nativeNotifications.isPageHidden()) {
+      return false;
+    }
+
+    if (toast.nativeFallback === true) {
+      return true;
+    }
+
+    const { nativeFallback } = this.globalConfig();
+    if (!nativeFallback) {
+      return false;
+    }
+
+    const matchesType = nativeFallback.types?.includes(toast.type) ?? false;
+    const matchesPriority =
+      nativeFallback.minPriority !== undefined &&
+      this.priorityRank(toast) >= TOAST_PRIORITY_RANK[nativeFallback.minPriority];
+
+    return matchesType || matchesPriority;
+  }
+
+  private toPlainText(toast: Toast): string {
+    return renderToastMessageAsText(toast.message, toast.messageFormat);
+  }
+
+  /**
+   * Brings the user back to the page and runs the toast's primary action.
+   */
+  private handleNativeNotificationClick(toastId: string): void {
+    this.nativeNotifications.focusWindow();
+    this.closeNativeNotification(toastId);
+
+    const primaryAction = this.findToast(toastId)?.actions.find(
+      (action) => action.variant === 'primary'
+    );
+    if (primaryAction) {
+      primaryAction.onClick();
+      this.handleAction(toastId, primaryAction);
+    }
+  }
+
+  private closeNativeNotification(toastId: string): void {
+    this.nativeNotificationHandles.get(toastId)?.close();
+    this.nativeNotificationHandles.delete(toastId);
+  }
+
+  private closeAllNativeNotifications(): void {
+    this.nativeNotificationHandles.forEach((handle) => handle.close());
+    this.nativeNotificationHandles.clear();
   }
 
   // ==========================================================================
@@ -344,14 +1275,54 @@ export class ToastService {
       return; // No auto-dismiss
     }
 
+    this.startTimer(toast.id, toast.durationMs, toast.durationMs);
+  }
+
+  /**
+   * Starts the countdown over with the toast's full duration.
+   * Queued toasts only drop their countdown and get a fresh one once opened.
+   * A paused countdown stays paused.
+   */
+  private restartTimer(toast: Toast): void {
+    if (this.queuedToastIdsSignal().has(toast.id)) {
+      this.clearTimerForToast(toast.id);
+      return;
+    }
+
+    const wasPaused = this.timerStatesSignal()[toast.id]?.running === false;
+
+    this.clearTimerForToast(toast.id);
+    this.scheduleAutoDismissIfNeeded(toast);
+
+    if (wasPaused) {
+      this.pauseTimer(toast.id);
+    }
+  }
+
+  private startTimer(toastId: string, remainingMs: number, durationMs: number): void {
     const timerId = setTimeout(() => {
-      this.dismiss(toast.id);
-    }, toast.durationMs);
+      this.dismiss(toastId, 'timeout');
+    }, remainingMs);
 
-    this.activeTimers.set(toast.id, timerId);
+    this.activeTimers.set(toastId, timerId);
+    this.setTimerState(toastId, {
+      durationMs,
+      remainingMs,
+      running: true,
+      startedAt: Date.now(),
+    });
+
+    if (this.globalPauseSources.size > 0) {
+      this.pauseTimer(toastId);
+      this.globallyPausedIds.add(toastId);
+    }
   }
 
-  private clearTimerForToast(toastId: string): void {
+  private setTimerState(toastId: string, timerState: ToastTimerState): void {
+    this.timerStatesSignal.update((timerStates) => ({ ...timerStates, [toastId]: timerState }));
+  }
+
+  private clearTimeoutHandle(toastId: string): void {
     const timerId = this.activeTimers.get(toastId);
     if (timerId !== undefined) {
       clearTimeout(timerId);
@@ -359,10 +1330,93 @@ export class ToastService {
     }
   }
 
+  private clearTimerForToast(toastId: string): void {
+    this.clearTimeoutHandle(toastId);
+    this.globallyPausedIds.delete(toastId);
+
+    if (toastId in this.timerStatesSignal()) {
+      this.timerStatesSignal.update((timerStates) => {
+        const { [toastId]: _removed, ...remaining } = timerStates;
+        return remaining;
+      });
+    }
+  }
+
   private clearAllTimers(): void {
     this.activeTimers.forEach((timerId) => {
       clearTimeout(timerId);
     });
     this.activeTimers.clear();
+    this.globallyPausedIds.clear();
+    this.timerStatesSignal.set({});
+  }
+
+  // ==========================================================================
+  // PRIVATE - Page Activity
+  // ==========================================================================
+
+  /**
+   * Pauses all timers while the page is hidden or the window is not focused,
+   * as configured. The options are read on every event, so overrides apply.
+   */
+  private listenToPageActivity(document: Document): void {
+    const window = document.defaultView;
+
+    const handleVisibilityChange = (): void => {
+      const isHidden = document.visibilityState === 'hidden';
+      this.setGlobalPause('page-hidden', isHidden && this.globalConfig().pauseOnPageHidden);
+    };
+    const handleBlur = (): void => {
+      this.setGlobalPause('window-blur', this.globalConfig().pauseOnWindowBlur);
+    };
+    const handleFocus = (): void => {
+      this.setGlobalPause('window-blur', false);
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window?.addEventListener('blur', handleBlur);
+    window?.addEventListener('focus', handleFocus);
+
+    this.destroyRef.onDestroy(() => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window?.removeEventListener('blur', handleBlur);
+      window?.removeEventListener('focus', handleFocus);
+    });
+
+    // The app may start in a background tab
+    handleVisibilityChange();
+  }
+
+  private setGlobalPause(source: GlobalPauseSource, isPaused: boolean): void {
+    const wasPaused = this.globalPauseSources.size > 0;
+
+    if (isPaused) {
+      this.globalPauseSources.add(source);
+    } else {
+      this.globalPauseSources.delete(source);
+    }
+
+    const isNowPaused = this.globalPauseSources.size > 0;
+    if (!wasPaused && isNowPaused) {
+      this.pauseAllTimers();
+    } else if (wasPaused && !isNowPaused) {
+      this.resumeGloballyPausedTimers();
+    }
+  }
+
+  private pauseAllTimers(): void {
+    Object.entries(this.timerStatesSignal()).forEach(([toastId, timerState]) => {
+      if (timerState.running) {
+        this.pauseTimer(toastId);
+        this.globallyPausedIds.add(toastId);
+      }
+    });
+  }
+
+  private resumeGloballyPausedTimers(): void {
+    const toastIds = [...this.globallyPausedIds];
+    this.globallyPausedIds.clear();
+
+    toastIds.forEach((toastId) => this.resumeTimer(toastId));
   }
 }
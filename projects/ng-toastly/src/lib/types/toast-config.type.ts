@@ -3,9 +3,26 @@
  */
 
 import { InjectionToken } from '@angular/core';
+import { ToastNativeFallbackConfig } from './toast-native.type';
 import { ToastPosition, ToastTheme, ToastType } from './toast.type';
 import { AnimationPreset, CustomAnimation } from '../animations/animation.types';
 
+/**
+ * How toasts beyond `maximumVisibleToasts` are handled.
+ * - 'queue': Wait in a queue and appear, with a fresh timer, once a slot frees up
+ * - 'evict-oldest': Dismiss the oldest visible toast to make room (reason: 'evicted')
+ * - 'reject': Throw a MAXIMUM_TOASTS_EXCEEDED error
+ */
+export type ToastOverflowStrategy = 'queue' | 'evict-oldest' | 'reject';
+
+/**
+ * How a repeat of an active toast with the same dedupe key is handled.
+ * - 'ignore': Keep the existing toast unchanged
+ * - 'refresh': Restart the existing toast's auto-dismiss timer
+ * - 'count': Restart the timer and show a repeat count badge
+ */
+export type ToastDedupeStrategy = 'ignore' | 'refresh' | 'count';
+
 /**
  * Global configuration for the Toastly notification system.
  * Provided at the application root level.
@@ -17,14 +34,32 @@ export interface ToastGlobalConfig {
   readonly theme: ToastTheme;
   /** Default auto-dismiss duration in milliseconds */
   readonly defaultDurationMs: number;
-  /** Maximum number of toasts visible at once */
+  /** Maximum number of toasts visible at once in each position */
   readonly maximumVisibleToasts: number;
+  /** What happens to toasts shown while the maximum is reached */
+  readonly overflowStrategy: ToastOverflowStrategy;
   /** Whether new toasts should appear at the top or bottom of the stack */
   readonly newestOnTop: boolean;
   /** Whether toasts should pause auto-dismiss on hover */
   readonly pauseOnHover: boolean;
+  /** Whether all auto-dismiss timers pause while the page is hidden (e.g. another tab is active) */
+  readonly pauseOnPageHidden: boolean;
+  /** Whether all auto-dismiss timers pause while the browser window is not focused */
+  readonly pauseOnWindowBlur: boolean;
+  /** How repeats of an active toast with the same dedupe key are handled */
+  readonly dedupeStrategy: ToastDedupeStrategy;
+  /** Whether toasts without a `dedupeKey` are matched on type, title and message */
+  readonly autoDedupe: boolean;
   /** Whether toasts are dismissible by default */
   readonly dismissibleByDefault: boolean;
+  /** Whether auto-dismissing toasts show a countdown bar by default */
+  readonly showCountdown: boolean;
+  /** Whether dismissible toasts can be swiped towards their edge to dismiss them */
+  readonly swipeToDismiss: boolean;
+  /** Whether toasts are dismissed on router navigation by default (requires `withRouter()`) */
+  readonly dismissOnNavigation: boolean;
+  /** Which toasts are also shown as native notifications while the page is hidden (false = none) */
+  readonly nativeFallback: ToastNativeFallbackConfig | false;
   /** Default type for toasts when not specified */
   readonly defaultType: ToastType;
   /** Animation preset to use for enter/leave transitions */
@@ -0,0 +1,54 @@
+/**
+ * Toast Content Types - Custom templates and components as toast content.
+ */
+
+import { InjectionToken, Signal } from '@angular/core';
+import { Toast, ToastDismissReason, ToastPayload } from './toast.type';
+
+/**
+ * Template context for a toast's `contentTemplate`.
+ *
+ * @example
+ * ```html
+ * <ng-template #inviteTemplate let-toast let-dismiss="dismiss">
+ *   <strong>{{ toast.title }}</strong>
+ *   <button (click)="accept(); dismiss('action')">Accept</button>
+ * </ng-template>
+ * ```
+ */
+export interface ToastContentContext {
+  /** The toast being rendered (bound by `let-toast`) */
+  readonly $implicit: Toast;
+  /** The toast being rendered */
+  readonly toast: Toast;
+  /** Dismisses the toast (default reason: 'user-close') */
+  readonly dismiss: (reason?: ToastDismissReason) => void;
+}
+
+/**
+ * Context available to components shown with `ToastService.showComponent()`.
+ * Inject it with the `TOAST_COMPONENT_CONTEXT` token.
+ */
+export interface ToastComponentContext {
+  /** The toast being rendered; updates when the toast changes */
+  readonly toast: Signal<Toast>;
+  /** Dismisses the toast (default reason: 'user-close') */
+  readonly dismiss: (reason?: ToastDismissReason) => void;
+}
+
+/**
+ * Options for `ToastService.showComponent()`.
+ */
+export interface ToastComponentOptions extends Omit<ToastPayload, 'message' | 'contentTemplate'> {
+  /** Inputs to set on the rendered component */
+  readonly inputs?: Readonly<Record<string, unknown>>;
+  /** Optional plain-text summary of the content */
+  readonly message?: string;
+}
+
+/**
+ * Injection token providing the ToastComponentContext to toast content components.
+ */
+export const TOAST_COMPONENT_CONTEXT = new InjectionToken<ToastComponentContext>(
+  'TOAST_COMPONENT_CONTEXT'
+);
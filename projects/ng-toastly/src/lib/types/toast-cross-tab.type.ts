@@ -0,0 +1,28 @@
+/**
+ * Toast Cross-Tab Types - Mirroring toasts between browser tabs.
+ */
+
+import { InjectionToken } from '@angular/core';
+
+/**
+ * Options for the `withCrossTabSync()` feature.
+ */
+export interface ToastCrossTabSyncOptions {
+  /** BroadcastChannel name shared by the tabs (default: 'toastly:sync') */
+  readonly channelName?: string;
+  /** Toasts carrying any of these tags are synced, in addition to those marked `syncAcrossTabs` */
+  readonly tags?: readonly string[];
+  /**
+   * Handlers for the actions of mirrored toasts, keyed by `ToastAction.id`.
+   * Functions can't be sent to other tabs, so actions without a handler are left out.
+   * Handlers run in an injection context and may call `inject()`.
+   */
+  readonly actions?: Readonly<Record<string, () => void>>;
+}
+
+/**
+ * Injection token for the `withCrossTabSync()` options.
+ */
+export const TOAST_CROSS_TAB_SYNC_OPTIONS = new InjectionToken<ToastCrossTabSyncOptions>(
+  'TOAST_CROSS_TAB_SYNC_OPTIONS'
+);
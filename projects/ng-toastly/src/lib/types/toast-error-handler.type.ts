@@ -0,0 +1,33 @@
+/**
+ * Toast Error Handler Types - Configuration for toasts shown on uncaught errors.
+ */
+
+import { InjectionToken } from '@angular/core';
+import { ToastPayload } from './toast.type';
+
+/**
+ * Options for the `withErrorHandler()` feature.
+ */
+export interface ToastErrorHandlerOptions {
+  /** Title of the error toast (default: 'Unexpected error') */
+  readonly title?: string;
+  /** Message of the error toast, fixed or built from the error (default: the error message) */
+  readonly message?: string | ((error: unknown) => string);
+  /** Return false to skip the toast for an error; it is still logged */
+  readonly filter?: (error: unknown) => boolean;
+  /** Minimum time between two error toasts in milliseconds (default: 5000) */
+  readonly rateLimitMs?: number;
+  /** Whether toasts are only shown in dev mode (default: false) */
+  readonly devModeOnly?: boolean;
+  /** Whether the toast has a "Copy details" action (default: true) */
+  readonly showCopyDetails?: boolean;
+  /** Options applied to every error toast (e.g. `position`, `durationMs`) */
+  readonly toastOptions?: Omit<ToastPayload, 'message' | 'title' | 'type' | 'actions'>;
+}
+
+/**
+ * Injection token for the `withErrorHandler()` options.
+ */
+export const TOAST_ERROR_HANDLER_OPTIONS = new InjectionToken<ToastErrorHandlerOptions>(
+  'TOAST_ERROR_HANDLER_OPTIONS'
+);
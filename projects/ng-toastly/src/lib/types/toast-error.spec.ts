@@ -3,18 +3,43 @@
  *
  * Verifies:
  * - createToastError function
+ * - isToastError type guard
  * - Error structure and types
  * - TOAST_ERROR_MESSAGES constants
  */
 
 import {
   createToastError,
+  isToastError,
   TOAST_ERROR_MESSAGES,
   ToastError,
   ToastErrorCode,
 } from './toast-error.type';
 
 describe('Toast Error Types', () => {
+  // ==========================================================================
+  // isToastError Function Tests
+  // ==========================================================================
+
+  describe('isToastError', () => {
+    it('should recognize toast errors', () => {
+      expect(isToastError(createToastError('TOAST_NOT_FOUND', 'Toast not found'))).toBe(true);
+    });
+
+    it('should match the code when one is given', () => {
+      const error = createToastError('MAXIMUM_TOASTS_EXCEEDED', 'Limit reached');
+
+      expect(isToastError(error, 'MAXIMUM_TOASTS_EXCEEDED')).toBe(true);
+      expect(isToastError(error, 'INVALID_DURATION')).toBe(false);
+    });
+
+    it('should reject other values', () => {
+      expect(isToastError(new Error('offline'))).toBe(false);
+      expect(isToastError(null)).toBe(false);
+      expect(isToastError('MAXIMUM_TOASTS_EXCEEDED')).toBe(false);
+    });
+  });
+
   // ==========================================================================
   // createToastError Function Tests
   // ==========================================================================
@@ -47,6 +47,22 @@ export function createToastError(
   };
 }
 
+/**
+ * Checks whether a caught value is a toast error, optionally with a given code.
+ *
+ * @param error - The caught value
+ * @param code - Optional error code to match
+ * @returns Whether the value is a ToastError (with that code)
+ */
+export function isToastError(error: unknown, code?: ToastErrorCode): error is ToastError {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+
+  const errorCode = (error as Partial<ToastError>).code;
+  return code === undefined ? errorCode !== undefined : errorCode === code;
+}
+
 /**
  * Pre-defined error messages for common error scenarios.
  * Provides consistent, developer-friendly error messages.
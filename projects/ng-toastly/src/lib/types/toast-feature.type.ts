@@ -0,0 +1,32 @@
+/**
+ * Toast Feature Types - Optional features for `provideToastly()`.
+ */
+
+import { Provider } from '@angular/core';
+
+/**
+ * Identifies an optional Toastly feature.
+ */
+export type ToastlyFeatureKind =
+  | 'router'
+  | 'http-error-toasts'
+  | 'error-handler'
+  | 'history'
+  | 'persistence'
+  | 'cross-tab-sync'
+  | 'animations';
+
+/**
+ * Optional feature passed to `provideToastly()`, created by a `with*()` function.
+ *
+ * @example
+ * ```typescript
+ * provideToastly({ position: 'top-right' }, withHistory());
+ * ```
+ */
+export interface ToastlyFeature<TKind extends ToastlyFeatureKind = ToastlyFeatureKind> {
+  /** Which feature this is */
+  readonly kind: TKind;
+  /** Providers registered by the feature */
+  readonly providers: readonly Provider[];
+}
@@ -0,0 +1,39 @@
+/**
+ * Toast History Types - Records of dismissed toasts.
+ */
+
+import { InjectionToken } from '@angular/core';
+import { Toast, ToastDismissReason } from './toast.type';
+
+/**
+ * A dismissed toast kept by ToastHistoryService.
+ */
+export interface ToastHistoryEntry {
+  /** ID of the recorded toast */
+  readonly id: string;
+  /** The toast as it was when dismissed */
+  readonly toast: Toast;
+  /** Timestamp when the toast was dismissed */
+  readonly dismissedAt: number;
+  /** Why the toast was dismissed */
+  readonly reason: ToastDismissReason;
+  /** Whether the user has seen the notification */
+  readonly read: boolean;
+}
+
+/**
+ * Options for the `withHistory()` feature.
+ */
+export interface ToastHistoryOptions {
+  /** Maximum number of entries kept; the oldest are dropped first (default: 50) */
+  readonly maxEntries?: number;
+  /** Return false to leave a dismissed toast out of the history */
+  readonly filter?: (toast: Toast, reason: ToastDismissReason) => boolean;
+}
+
+/**
+ * Injection token for the `withHistory()` options.
+ */
+export const TOAST_HISTORY_OPTIONS = new InjectionToken<ToastHistoryOptions>(
+  'TOAST_HISTORY_OPTIONS'
+);
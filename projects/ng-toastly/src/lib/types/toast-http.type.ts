@@ -0,0 +1,51 @@
+/**
+ * Toast HTTP Types - Configuration for toasts shown on failed HTTP requests.
+ */
+
+import { HttpErrorResponse } from '@angular/common/http';
+import { InjectionToken } from '@angular/core';
+import { ToastPayload } from './toast.type';
+
+/**
+ * Toast shown for a failed request. Always shown as a 'danger' toast.
+ */
+export type ToastHttpErrorToast = Omit<ToastPayload, 'type'>;
+
+/**
+ * Title and message for a status code.
+ */
+export interface ToastHttpErrorText {
+  /** Title of the toast */
+  readonly title?: string;
+  /** Message of the toast (default: read from the error body) */
+  readonly message?: string;
+}
+
+/**
+ * Options for `toastlyHttpErrorInterceptor`, provided through `withHttpErrorToasts()`.
+ */
+export interface ToastHttpErrorOptions {
+  /** Title and message per status code */
+  readonly statusMessages?: Readonly<Record<number, ToastHttpErrorText>>;
+  /** Status codes that never show a toast (e.g. 401 when handled by an auth flow) */
+  readonly ignoredStatuses?: readonly number[];
+  /**
+   * Builds the toast for a failed request from the default one.
+   * Return null to show no toast.
+   */
+  readonly mapError?: (
+    error: HttpErrorResponse,
+    defaultToast: ToastHttpErrorToast
+  ) => ToastHttpErrorToast | null;
+  /** Whether identical failures collapse into one toast with a repeat count (default: true) */
+  readonly dedupe?: boolean;
+  /** Options applied to every error toast (e.g. `position`, `durationMs`) */
+  readonly toastOptions?: Omit<ToastPayload, 'message' | 'title' | 'type'>;
+}
+
+/**
+ * Injection token for the HTTP error toast options.
+ */
+export const TOAST_HTTP_ERROR_OPTIONS = new InjectionToken<ToastHttpErrorOptions>(
+  'TOAST_HTTP_ERROR_OPTIONS'
+);
@@ -0,0 +1,85 @@
+/**
+ * Toast Native Notification Types - Web Notifications fallback for hidden pages.
+ */
+
+import { DOCUMENT } from '@angular/common';
+import { inject, InjectionToken } from '@angular/core';
+import { createBrowserNotificationAdapter } from '../utils/toast-native-notification';
+import { ToastPriority, ToastType } from './toast.type';
+
+/**
+ * Which toasts are also shown as native notifications while the page is hidden.
+ * A toast qualifies if it matches either rule.
+ *
+ * @example
+ * ```typescript
+ * provideToastly({ nativeFallback: { types: ['danger'], minPriority: 'high' } });
+ * ```
+ */
+export interface ToastNativeFallbackConfig {
+  /** Toast types that are sent as native notifications */
+  readonly types?: readonly ToastType[];
+  /** Lowest priority that is sent as a native notification */
+  readonly minPriority?: ToastPriority;
+}
+
+/**
+ * Permission to show native notifications, or 'unsupported' when the
+ * browser has no Notifications API.
+ */
+export type ToastNotificationPermission = NotificationPermission | 'unsupported';
+
+/**
+ * Content of a native notification.
+ */
+export interface ToastNativeNotification {
+  /** Notification title */
+  readonly title: string;
+  /** Notification body */
+  readonly body: string;
+  /** Replaces an earlier notification with the same tag */
+  readonly tag: string;
+  /** Whether the notification stays until the user acts on it */
+  readonly requireInteraction: boolean;
+}
+
+/**
+ * A native notification on screen.
+ */
+export interface ToastNativeNotificationHandle {
+  /** Removes the notification */
+  close(): void;
+}
+
+/**
+ * Access to page visibility and the Notifications API.
+ * Replace it through `TOAST_NATIVE_NOTIFICATION_ADAPTER` in tests or to use
+ * service worker notifications.
+ */
+export interface ToastNativeNotificationAdapter {
+  /** Whether the page is currently hidden (e.g. a background tab) */
+  isPageHidden(): boolean;
+  /** Current notification permission */
+  permission(): ToastNotificationPermission;
+  /** Asks the user for notification permission */
+  requestPermission(): Promise<ToastNotificationPermission>;
+  /** Shows a notification; returns null if it could not be shown */
+  show(
+    notification: ToastNativeNotification,
+    onClick: () => void
+  ): ToastNativeNotificationHandle | null;
+  /** Brings the page's window to the front */
+  focusWindow(): void;
+}
+
+/**
+ * Injection token for the adapter used to show native notifications.
+ * Defaults to the browser's Notifications API.
+ */
+export const TOAST_NATIVE_NOTIFICATION_ADAPTER = new InjectionToken<ToastNativeNotificationAdapter>(
+  'TOAST_NATIVE_NOTIFICATION_ADAPTER',
+  {
+    providedIn: 'root',
+    factory: () => createBrowserNotificationAdapter(inject(DOCUMENT)),
+  }
+);
@@ -0,0 +1,51 @@
+/**
+ * Toast Persistence Types - Keeping toasts across page reloads.
+ */
+
+import { InjectionToken } from '@angular/core';
+
+/**
+ * Synchronous key-value storage used to persist toasts.
+ * `localStorage` and `sessionStorage` implement it directly.
+ */
+export interface ToastStorageAdapter {
+  /** Returns the stored value, or null if there is none */
+  getItem(key: string): string | null;
+  /** Stores a value */
+  setItem(key: string, value: string): void;
+  /** Removes a stored value */
+  removeItem(key: string): void;
+}
+
+/**
+ * Where persisted toasts are stored.
+ * - 'session': `sessionStorage`, kept for the current tab only
+ * - 'local': `localStorage`, kept after the browser closes. All tabs share one
+ *   entry, so the tab that saves last decides what is restored
+ * - 'memory': In-memory storage that only survives within the running app (useful in tests)
+ * - A custom adapter, e.g. a wrapper around IndexedDB with a synchronous cache
+ */
+export type ToastPersistenceStorage = 'local' | 'session' | 'memory' | ToastStorageAdapter;
+
+/**
+ * Options for the `withPersistence()` feature.
+ */
+export interface ToastPersistenceOptions {
+  /** Where persisted toasts are stored (default: 'session') */
+  readonly storage?: ToastPersistenceStorage;
+  /** Storage key holding the persisted toasts (default: 'toastly:toasts') */
+  readonly storageKey?: string;
+  /**
+   * Handlers for the actions of restored toasts, keyed by `ToastAction.id`.
+   * Functions can't be stored, so restored actions without a handler are left out.
+   * Handlers run in an injection context and may call `inject()`.
+   */
+  readonly actions?: Readonly<Record<string, () => void>>;
+}
+
+/**
+ * Injection token for the `withPersistence()` options.
+ */
+export const TOAST_PERSISTENCE_OPTIONS = new InjectionToken<ToastPersistenceOptions>(
+  'TOAST_PERSISTENCE_OPTIONS'
+);
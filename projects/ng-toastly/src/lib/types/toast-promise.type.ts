@@ -0,0 +1,33 @@
+/**
+ * Toast Promise Types - Configuration for toasts bound to async operations.
+ */
+
+import { ToastPayload } from './toast.type';
+
+/**
+ * Message for a settled state, either fixed or built from the outcome.
+ *
+ * @example
+ * ```typescript
+ * const success: ToastPromiseMessage<User> = (user) => `Welcome, ${user.name}!`;
+ * ```
+ */
+export type ToastPromiseMessage<TInput> = string | ((input: TInput) => string);
+
+/**
+ * Messages shown while a promise-bound toast is pending and once it settles.
+ */
+export interface ToastPromiseMessages<TValue> {
+  /** Message shown while the operation is pending */
+  readonly loading: string;
+  /** Message shown when the operation succeeds (receives the resolved value) */
+  readonly success: ToastPromiseMessage<TValue>;
+  /** Message shown when the operation fails (receives the error) */
+  readonly error: ToastPromiseMessage<unknown>;
+}
+
+/**
+ * Additional options for promise-bound toasts.
+ * `durationMs` applies once the toast has settled; the loading state never auto-dismisses.
+ */
+export type ToastPromiseOptions = Omit<ToastPayload, 'message' | 'type' | 'progressPercent'>;
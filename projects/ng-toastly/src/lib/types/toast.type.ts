@@ -5,13 +5,16 @@
  * No 'any' or 'unknown' types are used.
  */
 
-import { TemplateRef } from '@angular/core';
+import { TemplateRef, Type } from '@angular/core';
+import { AnimationConfig } from '../animations/animation.types';
+import { ToastContentContext } from './toast-content.type';
 
 /**
  * Semantic toast types representing different notification purposes.
  * Each type has distinct visual styling and accessibility semantics.
+ * 'loading' shows a spinner and is used while an async operation is pending.
  */
-export type ToastType = 'info' | 'success' | 'warning' | 'danger';
+export type ToastType = 'info' | 'success' | 'warning' | 'danger' | 'loading';
 
 /**
  * Visual theme variants for toast notifications.
@@ -31,6 +34,22 @@ export type ToastPosition =
   | 'top-center'
   | 'bottom-center';
 
+/**
+ * Importance of a toast notification.
+ * Higher priorities are shown ahead of lower ones and push them into the
+ * queue when the visible limit is reached.
+ * 'critical' toasts always pause on hover and are always dismissible.
+ */
+export type ToastPriority = 'low' | 'normal' | 'high' | 'critical';
+
+/**
+ * How a toast's message is rendered.
+ * - 'text': Shown as plain text (default)
+ * - 'html': Rendered as HTML after sanitization
+ * - 'markdown': A small inline subset (bold, italic, code, links), rendered safely
+ */
+export type ToastMessageFormat = 'text' | 'html' | 'markdown';
+
 /**
  * Button style variants for toast action buttons.
  */
@@ -40,14 +59,37 @@ export type ToastActionVariant = 'primary' | 'secondary';
  * Action button configuration for toast notifications.
  */
 export interface ToastAction {
+  /** Identifies the action so restored toasts can find its handler (see `withPersistence()`) */
+  readonly id?: string;
   /** Display label for the action button */
   readonly label: string;
   /** Callback function executed when the button is clicked */
   readonly onClick: () => void;
   /** Visual style variant for the button */
   readonly variant: ToastActionVariant;
+  /** Whether clicking the button also dismisses the toast (reason: 'action') */
+  readonly dismissOnClick?: boolean;
 }
 
+/**
+ * Reasons a toast can be removed from the screen.
+ * - 'timeout': The auto-dismiss timer elapsed
+ * - 'user-close': The user clicked the close button
+ * - 'action': An action button with `dismissOnClick` was clicked
+ * - 'programmatic': Dismissed through the service or a ToastRef
+ * - 'evicted': Removed to make room for another toast
+ * - 'navigation': Removed after a router navigation (see `dismissOnNavigation`)
+ * - 'swipe': The user swiped the toast away (see `swipeToDismiss`)
+ */
+export type ToastDismissReason =
+  | 'timeout'
+  | 'user-close'
+  | 'action'
+  | 'programmatic'
+  | 'evicted'
+  | 'navigation'
+  | 'swipe';
+
 /**
  * User-provided input for creating a new toast notification.
  * This is the public API for toast creation.
@@ -55,6 +97,8 @@ export interface ToastAction {
 export interface ToastPayload {
   /** Main message content of the toast */
   readonly message: string;
+  /** How the message is rendered (default: 'text') */
+  readonly messageFormat?: ToastMessageFormat;
   /** Optional title displayed above the message */
   readonly title?: string;
   /** Semantic type determining the toast's appearance and ARIA role */
@@ -71,14 +115,47 @@ export interface ToastPayload {
   readonly styleClass?: string;
   /** Custom icon template to display instead of the default type icon */
   readonly iconTemplate?: TemplateRef<void>;
+  /** Custom template rendered instead of the title and message */
+  readonly contentTemplate?: TemplateRef<ToastContentContext>;
   /** URL or path to an avatar image */
   readonly avatarUrl?: string;
   /** Progress value between 0 and 100 (undefined = no progress bar) */
   readonly progressPercent?: number;
+  /** Whether to show a countdown bar until auto-dismiss (overrides global config) */
+  readonly showCountdown?: boolean;
+  /** Whether the toast can be swiped away (overrides global config) */
+  readonly swipeToDismiss?: boolean;
   /** Specific position for this toast (overrides global config) */
   readonly position?: ToastPosition;
+  /** Key identifying repeats of the same notification (see `dedupeStrategy`) */
+  readonly dedupeKey?: string;
+  /** Importance of the toast (default: 'normal') */
+  readonly priority?: ToastPriority;
+  /** Group the toast belongs to, for bulk operations and grouped rendering */
+  readonly group?: string;
+  /** Free-form labels for finding and dismissing related toasts */
+  readonly tags?: readonly string[];
+  /** Whether the toast is dismissed when the user navigates away (requires `withRouter()`) */
+  readonly dismissOnNavigation?: boolean;
+  /** Whether the toast is restored after a page reload (requires `withPersistence()`) */
+  readonly persist?: boolean;
+  /** Whether the toast and its dismissal are shown in other tabs (requires `withCrossTabSync()`) */
+  readonly syncAcrossTabs?: boolean;
+  /**
+   * Whether the toast is also shown as a native notification while the page is hidden
+   * (overrides the global `nativeFallback` rules)
+   */
+  readonly nativeFallback?: boolean;
+  /** Enter and leave animation for this toast (overrides `animationPreset` and `animation`) */
+  readonly animation?: AnimationConfig;
 }
 
+/**
+ * Changes that can be applied to a toast that is already on screen.
+ * Omitted properties keep their current value.
+ */
+export type ToastUpdate = Partial<Omit<ToastPayload, 'position' | 'dedupeKey' | 'priority'>>;
+
 /**
  * Internal representation of a toast notification.
  * Extends ToastPayload with required internal fields.
@@ -88,6 +165,8 @@ export interface Toast extends Required<Pick<ToastPayload, 'message' | 'type' |
   readonly id: string;
   /** Timestamp when the toast was created */
   readonly createdAt: number;
+  /** How the message is rendered */
+  readonly messageFormat?: ToastMessageFormat;
   /** Optional title */
   readonly title?: string;
   /** Duration in milliseconds (0 = no auto-dismiss) */
@@ -98,10 +177,66 @@ export interface Toast extends Required<Pick<ToastPayload, 'message' | 'type' |
   readonly styleClass?: string;
   /** Custom icon template */
   readonly iconTemplate?: TemplateRef<void>;
+  /** Custom content template */
+  readonly contentTemplate?: TemplateRef<ToastContentContext>;
+  /** Component rendered instead of the title and message */
+  readonly component?: Type<unknown>;
+  /** Inputs set on the content component */
+  readonly componentInputs?: Readonly<Record<string, unknown>>;
   /** Avatar image URL */
   readonly avatarUrl?: string;
   /** Progress percentage */
   readonly progressPercent?: number;
+  /** Whether a countdown bar is shown while the auto-dismiss timer runs */
+  readonly showCountdown?: boolean;
+  /** Whether the toast can be swiped away */
+  readonly swipeToDismiss?: boolean;
   /** Resolved position for this toast */
   readonly position: ToastPosition;
+  /** Resolved dedupe key (explicit or derived from type, title and message) */
+  readonly dedupeKey?: string;
+  /** How many times this toast has been shown while active (1 = no repeats) */
+  readonly repeatCount?: number;
+  /** Resolved priority */
+  readonly priority?: ToastPriority;
+  /** Group the toast belongs to */
+  readonly group?: string;
+  /** Labels attached to the toast */
+  readonly tags?: readonly string[];
+  /** Whether the toast is dismissed on navigation */
+  readonly dismissOnNavigation?: boolean;
+  /** Whether the toast is restored after a page reload */
+  readonly persist?: boolean;
+  /** Whether the toast is mirrored in other tabs */
+  readonly syncAcrossTabs?: boolean;
+  /** Whether the toast is shown as a native notification while the page is hidden */
+  readonly nativeFallback?: boolean;
+  /** Animation settings of this toast; the rest comes from the global config */
+  readonly animation?: AnimationConfig;
+}
+
+/**
+ * Lifecycle event emitted by `ToastService.events`.
+ * - 'shown': The toast appeared on screen (also when it leaves the queue)
+ * - 'updated': The toast was changed through `update()`
+ * - 'dismissed': The toast was removed, with the reason
+ */
+export type ToastEvent =
+  | { readonly type: 'shown'; readonly toast: Toast }
+  | { readonly type: 'updated'; readonly toast: Toast }
+  | { readonly type: 'dismissed'; readonly toast: Toast; readonly reason: ToastDismissReason };
+
+/**
+ * Snapshot of a toast's auto-dismiss countdown.
+ * Only toasts with a running or paused countdown have a timer state.
+ */
+export interface ToastTimerState {
+  /** Total countdown duration in milliseconds */
+  readonly durationMs: number;
+  /** Time left in milliseconds, measured when the countdown last started or paused */
+  readonly remainingMs: number;
+  /** Whether the countdown is currently running */
+  readonly running: boolean;
+  /** Timestamp when the countdown last started or resumed (null while paused) */
+  readonly startedAt: number | null;
 }
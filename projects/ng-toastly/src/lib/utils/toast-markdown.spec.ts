@@ -0,0 +1,128 @@
+/**
+ * Tests for renderToastMarkdown and renderToastMarkdownAsText
+ *
+ * Verifies:
+ * - Supported inline formatting (bold, italic, code, links)
+ * - HTML escaping of the source
+ * - Safe link handling
+ * - Plain-text rendering
+ */
+
+import { renderToastMarkdown, renderToastMarkdownAsText } from './toast-markdown';
+
+describe('renderToastMarkdown', () => {
+  // ==========================================================================
+  // Formatting Tests
+  // ==========================================================================
+
+  describe('formatting', () => {
+    it('should leave plain text unchanged', () => {
+      expect(renderToastMarkdown('Settings saved')).toBe('Settings saved');
+    });
+
+    it('should render bold text', () => {
+      expect(renderToastMarkdown('Uploaded **report.pdf**')).toBe(
+        'Uploaded <strong>report.pdf</strong>'
+      );
+      expect(renderToastMarkdown('__Done__')).toBe('<strong>Done</strong>');
+    });
+
+    it('should render italic text', () => {
+      expect(renderToastMarkdown('*maybe* later')).toBe('<em>maybe</em> later');
+      expect(renderToastMarkdown('_maybe_ later')).toBe('<em>maybe</em> later');
+    });
+
+    it('should not treat underscores inside words as italic', () => {
+      expect(renderToastMarkdown('Missing user_id and org_id')).toBe(
+        'Missing user_id and org_id'
+      );
+    });
+
+    it('should render code spans without formatting their content', () => {
+      expect(renderToastMarkdown('Run `npm **install**`')).toBe(
+        'Run <code>npm **install**</code>'
+      );
+    });
+  });
+
+  // ==========================================================================
+  // Escaping Tests
+  // ==========================================================================
+
+  describe('escaping', () => {
+    it('should escape HTML in the source', () => {
+      expect(renderToastMarkdown('<img src=x onerror="alert(1)">')).toBe(
+        '&lt;img src=x onerror=&quot;alert(1)&quot;&gt;'
+      );
+    });
+
+    it('should escape HTML inside formatting', () => {
+      expect(renderToastMarkdown('**<b>bold</b>**')).toBe(
+        '<strong>&lt;b&gt;bold&lt;/b&gt;</strong>'
+      );
+    });
+  });
+
+  // ==========================================================================
+  // Link Tests
+  // ==========================================================================
+
+  describe('links', () => {
+    it('should open external links in a new tab', () => {
+      expect(renderToastMarkdown('[Open](https://example.com/orders/1)')).toBe(
+        '<a href="https://example.com/orders/1" target="_blank" rel="noopener noreferrer">Open</a>'
+      );
+    });
+
+    it('should render relative links in the same tab', () => {
+      expect(renderToastMarkdown('[Order #1](/orders/1)')).toBe('<a href="/orders/1">Order #1</a>');
+    });
+
+    it('should not format underscores inside link URLs', () => {
+      expect(renderToastMarkdown('[Logs](/logs/_build_/latest)')).toBe(
+        '<a href="/logs/_build_/latest">Logs</a>'
+      );
+    });
+
+    it('should format the link label', () => {
+      expect(renderToastMarkdown('[**Order**](/orders/1)')).toBe(
+        '<a href="/orders/1"><strong>Order</strong></a>'
+      );
+    });
+
+    it('should render code spans inside the link label', () => {
+      expect(renderToastMarkdown('[`npm ci`](/docs/install)')).toBe(
+        '<a href="/docs/install"><code>npm ci</code></a>'
+      );
+      expect(renderToastMarkdown('[`x`](javascript:void)')).toBe('<code>x</code>');
+    });
+
+    it('should not treat code spans as link URLs', () => {
+      expect(renderToastMarkdown('[Run](`npm ci`)')).toBe('[Run](<code>npm ci</code>)');
+    });
+
+    it('should render unsafe links as plain text', () => {
+      expect(renderToastMarkdown('[Click](javascript:alert(1))')).toBe('Click)');
+      expect(renderToastMarkdown('[Click](data:text/html,x)')).toBe('Click');
+    });
+
+    it('should keep attribute quotes escaped in URLs', () => {
+      expect(renderToastMarkdown('[x](/a"onmouseover="alert(1))')).toBe(
+        '<a href="/a&quot;onmouseover=&quot;alert(1">x</a>)'
+      );
+    });
+  });
+
+});
+
+describe('renderToastMarkdownAsText', () => {
+  it('should drop the formatting syntax and keep the text', () => {
+    expect(renderToastMarkdownAsText('**Build** _failed_ in `main` ([logs](/logs/1))')).toBe(
+      'Build failed in main (logs)'
+    );
+  });
+
+  it('should keep special characters as text', () => {
+    expect(renderToastMarkdownAsText('R&D <team> said "hi"')).toBe('R&D <team> said "hi"');
+  });
+});
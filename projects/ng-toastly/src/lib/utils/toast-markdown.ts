@@ -0,0 +1,138 @@
+/**
+ * Toast Markdown - Minimal Markdown renderer for toast messages.
+ *
+ * Supports a small inline subset, with no external dependency:
+ * - `**bold**` and `__bold__`
+ * - `*italic*` and `_italic_`
+ * - `` `code` ``
+ * - `[label](url)` links
+ *
+ * The source is HTML-escaped before any formatting is applied, so raw
+ * markup in the message is always shown as text.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Link targets that may be rendered as anchors.
+ * Anything else (e.g. `javascript:` or `data:`) is rendered as plain text.
+ */
+const SAFE_LINK_URL_PATTERN = /^(https?:\/\/|mailto:|\/|#|\.{1,2}\/)/i;
+
+/**
+ * Link targets that open in a new tab.
+ */
+const EXTERNAL_LINK_URL_PATTERN = /^https?:\/\//i;
+
+/**
+ * Marks the position of an already rendered fragment while formatting.
+ */
+const PLACEHOLDER_PATTERN = /\u0000(\d+)\u0000/g;
+
+const HTML_ESCAPES: Readonly<Record<string, string>> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const HTML_UNESCAPES: Readonly<Record<string, string>> = Object.fromEntries(
+  Object.entries(HTML_ESCAPES).map(([character, entity]) => [entity, character])
+);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Renders a Markdown message to HTML.
+ *
+ * @param source - Markdown source, possibly untrusted
+ * @returns HTML string containing only strong, em, code and a elements
+ *
+ * @example
+ * ```typescript
+ * renderToastMarkdown('Uploaded **report.pdf**');
+ * // 'Uploaded <strong>report.pdf</strong>'
+ * ```
+ */
+export function renderToastMarkdown(source: string): string {
+  const fragments: string[] = [];
+  const reserve = (html: string): string => {
+    fragments.push(html);
+    return `\u0000${fragments.length - 1}\u0000`;
+  };
+
+  // Code spans and links are rendered first so their content is not formatted again
+  const html = escapeHtml(source.replace(/\u0000/g, ''))
+    .replace(/`([^`]+)`/g, (_match, code: string) => reserve(`<code>${code}</code>`))
+    .replace(/\[([^\]]+)\]\(([^)\s\u0000]+)\)/g, (_match, label: string, url: string) =>
+      reserve(renderLink(label, url))
+    );
+
+  return restoreFragments(formatEmphasis(html), fragments);
+}
+
+/**
+ * Renders a Markdown message to plain text, for places that can't show HTML.
+ * Link labels and code are kept, the formatting syntax is dropped.
+ *
+ * @param source - Markdown source
+ * @returns Text without Markdown syntax
+ *
+ * @example
+ * ```typescript
+ * renderToastMarkdownAsText('Uploaded **report.pdf** ([open](/files/1))');
+ * // 'Uploaded report.pdf (open)'
+ * ```
+ */
+export function renderToastMarkdownAsText(source: string): string {
+  // The rendered HTML only contains tags added by the renderer; text is escaped
+  return unescapeHtml(renderToastMarkdown(source).replace(/<[^>]*>/g, ''));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (character) => HTML_ESCAPES[character]);
+}
+
+function unescapeHtml(html: string): string {
+  return html.replace(/&(?:amp|lt|gt|quot|#39);/g, (entity) => HTML_UNESCAPES[entity]);
+}
+
+function formatEmphasis(html: string): string {
+  return html
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|\W)__(.+?)__(?=\W|$)/g, '$1<strong>$2</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/(^|\W)_(.+?)_(?=\W|$)/g, '$1<em>$2</em>');
+}
+
+function renderLink(label: string, url: string): string {
+  const formattedLabel = formatEmphasis(label);
+
+  if (!SAFE_LINK_URL_PATTERN.test(url)) {
+    return formattedLabel;
+  }
+
+  const targetAttributes = EXTERNAL_LINK_URL_PATTERN.test(url)
+    ? ' target="_blank" rel="noopener noreferrer"'
+    : '';
+
+  return `<a href="${url}"${targetAttributes}>${formattedLabel}</a>`;
+}
+
+/**
+ * Fragments may contain placeholders themselves, e.g. a code span in a link label.
+ */
+function restoreFragments(html: string, fragments: readonly string[]): string {
+  return html.replace(PLACEHOLDER_PATTERN, (_match, index: string) =>
+    restoreFragments(fragments[Number(index)], fragments)
+  );
+}
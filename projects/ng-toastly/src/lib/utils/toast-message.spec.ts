@@ -0,0 +1,53 @@
+/**
+ * Tests for renderToastMessageHtml and renderToastMessageAsText
+ *
+ * Verifies:
+ * - Plain-text messages are left to interpolation
+ * - 'html' and 'markdown' messages are rendered and sanitized
+ * - Conversion of every format to plain text
+ */
+
+import { TestBed } from '@angular/core/testing';
+import { DomSanitizer } from '@angular/platform-browser';
+import { renderToastMessageAsText, renderToastMessageHtml } from './toast-message';
+
+describe('renderToastMessageHtml', () => {
+  let sanitizer: DomSanitizer;
+
+  beforeEach(() => {
+    sanitizer = TestBed.inject(DomSanitizer);
+  });
+
+  it('should return null for plain-text messages', () => {
+    expect(renderToastMessageHtml(sanitizer, '<b>Saved</b>', undefined)).toBeNull();
+    expect(renderToastMessageHtml(sanitizer, '<b>Saved</b>', 'text')).toBeNull();
+  });
+
+  it('should render markdown messages', () => {
+    expect(renderToastMessageHtml(sanitizer, 'Build **failed**', 'markdown')).toBe(
+      'Build <strong>failed</strong>'
+    );
+  });
+
+  it('should sanitize html messages', () => {
+    expect(
+      renderToastMessageHtml(sanitizer, '<em>Saved</em><img src="x" onerror="alert(1)">', 'html')
+    ).toBe('<em>Saved</em><img src="x">');
+  });
+});
+
+describe('renderToastMessageAsText', () => {
+  it('should leave plain-text messages unchanged', () => {
+    expect(renderToastMessageAsText('Tom &amp; <Jerry>', 'text')).toBe('Tom &amp; <Jerry>');
+  });
+
+  it('should strip tags and decode entities in html messages', () => {
+    expect(renderToastMessageAsText('<b>Tom</b> &amp; Jerry&nbsp;&#8212;', 'html')).toBe(
+      'Tom & Jerry\u00a0\u2014'
+    );
+  });
+
+  it('should strip the syntax of markdown messages', () => {
+    expect(renderToastMessageAsText('Build **failed**', 'markdown')).toBe('Build failed');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Toast Message - Renders toast messages according to their format.
+ *
+ * Shared by the toast item and the notification center, so that 'html' and
+ * 'markdown' messages look and are sanitized the same in both places, and by
+ * native notifications, which only show plain text.
+ */
+
+import { SecurityContext } from '@angular/core';
+import { DomSanitizer } from '@angular/platform-browser';
+import { ToastMessageFormat } from '../types/toast.type';
+import { renderToastMarkdown, renderToastMarkdownAsText } from './toast-markdown';
+
+/**
+ * Renders 'html' and 'markdown' messages to sanitized HTML.
+ *
+ * @param sanitizer - Sanitizer of the rendering component
+ * @param message - Message source
+ * @param messageFormat - Format of the message
+ * @returns HTML to bind to `innerHTML`, or null for plain-text messages
+ */
+export function renderToastMessageHtml(
+  sanitizer: DomSanitizer,
+  message: string,
+  messageFormat: ToastMessageFormat | undefined
+): string | null {
+  switch (messageFormat) {
+    case 'html':
+      return sanitizer.sanitize(SecurityContext.HTML, message) ?? '';
+    case 'markdown':
+      return sanitizer.sanitize(SecurityContext.HTML, renderToastMarkdown(message)) ?? '';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Renders a message to plain text, without markup and with entities decoded.
+ *
+ * @param message - Message source
+ * @param messageFormat - Format of the message
+ * @returns Text to show where HTML can't be rendered
+ */
+export function renderToastMessageAsText(
+  message: string,
+  messageFormat: ToastMessageFormat | undefined
+): string {
+  switch (messageFormat) {
+    case 'html':
+      return htmlToText(message);
+    case 'markdown':
+      return renderToastMarkdownAsText(message);
+    default:
+      return message;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function htmlToText(html: string): string {
+  if (typeof DOMParser === 'undefined') {
+    return html.replace(/<[^>]*>/g, ''); // Server-side; entities are kept
+  }
+
+  // Parsed documents are inert: scripts don't run and resources don't load
+  return new DOMParser().parseFromString(html, 'text/html').body.textContent ?? '';
+}
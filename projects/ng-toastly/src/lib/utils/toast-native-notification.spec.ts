@@ -0,0 +1,92 @@
+/**
+ * Tests for createBrowserNotificationAdapter
+ *
+ * Verifies:
+ * - Page visibility and permission reporting
+ * - Notifications are only created with permission
+ * - Missing Notifications API support
+ */
+
+import { createBrowserNotificationAdapter } from './toast-native-notification';
+
+class FakeNotification {
+  static permission: NotificationPermission = 'granted';
+  static requestPermission = vi.fn(() => Promise.resolve<NotificationPermission>('granted'));
+  static instances: FakeNotification[] = [];
+
+  onclick: (() => void) | null = null;
+  close = vi.fn();
+
+  constructor(
+    readonly title: string,
+    readonly options: NotificationOptions
+  ) {
+    FakeNotification.instances.push(this);
+  }
+}
+
+describe('createBrowserNotificationAdapter', () => {
+  const notification = {
+    title: 'Billing',
+    body: 'Payment failed',
+    tag: 'toastly-1',
+    requireInteraction: false,
+  };
+
+  beforeEach(() => {
+    FakeNotification.permission = 'granted';
+    FakeNotification.instances = [];
+    vi.stubGlobal('Notification', FakeNotification);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should report whether the page is hidden', () => {
+    const adapter = createBrowserNotificationAdapter(document);
+
+    expect(adapter.isPageHidden()).toBe(document.visibilityState === 'hidden');
+  });
+
+  it('should create a notification that reports clicks', () => {
+    const onClick = vi.fn();
+    const adapter = createBrowserNotificationAdapter(document);
+
+    const handle = adapter.show(notification, onClick);
+    FakeNotification.instances[0].onclick?.();
+
+    expect(handle).not.toBeNull();
+    expect(FakeNotification.instances[0].title).toBe('Billing');
+    expect(FakeNotification.instances[0].options).toEqual({
+      body: 'Payment failed',
+      tag: 'toastly-1',
+      requireInteraction: false,
+    });
+    expect(onClick).toHaveBeenCalled();
+  });
+
+  it('should not create notifications without permission', () => {
+    FakeNotification.permission = 'denied';
+    const adapter = createBrowserNotificationAdapter(document);
+
+    expect(adapter.show(notification, vi.fn())).toBeNull();
+    expect(adapter.permission()).toBe('denied');
+  });
+
+  it('should request permission', async () => {
+    const adapter = createBrowserNotificationAdapter(document);
+
+    await expect(adapter.requestPermission()).resolves.toBe('granted');
+    expect(FakeNotification.requestPermission).toHaveBeenCalled();
+  });
+
+  it('should report missing support', async () => {
+    vi.stubGlobal('Notification', undefined);
+    const adapter = createBrowserNotificationAdapter(document);
+
+    expect(adapter.permission()).toBe('unsupported');
+    await expect(adapter.requestPermission()).resolves.toBe('unsupported');
+    expect(adapter.show(notification, vi.fn())).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Toast Native Notification - Browser implementation of the native notification adapter.
+ *
+ * Uses the Web Notifications API. Browsers that only allow notifications
+ * from a service worker (e.g. Chrome on Android) throw when a notification
+ * is created; those notifications are skipped.
+ */
+
+import {
+  ToastNativeNotificationAdapter,
+  ToastNotificationPermission,
+} from '../types/toast-native.type';
+
+/**
+ * Creates an adapter backed by the browser's Notifications API.
+ *
+ * @param document - Document of the page
+ * @returns Adapter for `TOAST_NATIVE_NOTIFICATION_ADAPTER`
+ */
+export function createBrowserNotificationAdapter(
+  document: Document
+): ToastNativeNotificationAdapter {
+  const isSupported = (): boolean => typeof Notification !== 'undefined';
+
+  return {
+    isPageHidden: () => document.visibilityState === 'hidden',
+    permission: () => (isSupported() ? Notification.permission : 'unsupported'),
+    requestPermission: async (): Promise<ToastNotificationPermission> =>
+      isSupported() ? Notification.requestPermission() : 'unsupported',
+    show: (notification, onClick) => {
+      if (!isSupported() || Notification.permission !== 'granted') {
+        return null;
+      }
+
+      try {
+        const { title, ...options } = notification;
+        const nativeNotification = new Notification(title, options);
+        nativeNotification.onclick = () => onClick();
+        return nativeNotification;
+      } catch {
+        return null;
+      }
+    },
+    focusWindow: () => document.defaultView?.focus(),
+  };
+}
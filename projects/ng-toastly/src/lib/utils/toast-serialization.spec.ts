@@ -0,0 +1,111 @@
+/**
+ * Tests for toast serialization
+ *
+ * Verifies:
+ * - Serialized toasts contain only plain data
+ * - Actions are reconnected to handlers by ID
+ * - Shape checks for untrusted payloads
+ */
+
+import { EnvironmentInjector } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { Toast } from '../types/toast.type';
+import {
+  isSerializableToast,
+  isSerializedToastPayload,
+  restoreToastActions,
+  serializeToast,
+} from './toast-serialization';
+
+function createToast(overrides: Partial<Toast> = {}): Toast {
+  return {
+    id: 'toastly-1',
+    message: 'Export in progress',
+    type: 'loading',
+    theme: 'light',
+    durationMs: 0,
+    dismissible: true,
+    position: 'bottom-right',
+    actions: [],
+    createdAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('toast serialization', () => {
+  describe('serializeToast()', () => {
+    it('should produce a JSON round-trippable payload', () => {
+      const payload = serializeToast(createToast({ title: 'Reports', tags: ['exports'] }));
+
+      expect(JSON.parse(JSON.stringify(payload))).toEqual(
+        expect.objectContaining({
+          message: 'Export in progress',
+          title: 'Reports',
+          tags: ['exports'],
+        })
+      );
+    });
+
+    it('should keep only actions with an ID, without their handler', () => {
+      const payload = serializeToast(
+        createToast({
+          actions: [
+            { id: 'view', label: 'View', variant: 'primary', onClick: vi.fn() },
+            { label: 'Hide', variant: 'secondary', onClick: vi.fn() },
+          ],
+        })
+      );
+
+      expect(payload.actions).toEqual([{ id: 'view', label: 'View', variant: 'primary' }]);
+    });
+
+    it('should keep the animation settings without custom callbacks', () => {
+      const payload = serializeToast(
+        createToast({
+          animation: {
+            preset: 'bounce',
+            durationMs: 500,
+            custom: { enter: vi.fn(), leave: vi.fn() },
+          },
+        })
+      );
+
+      expect(payload.animation).toEqual({ preset: 'bounce', durationMs: 500, easing: undefined });
+    });
+
+    it('should not serialize toasts with custom components', () => {
+      expect(isSerializableToast(createToast())).toBe(true);
+      expect(isSerializableToast(createToast({ component: class {} }))).toBe(false);
+    });
+  });
+
+  describe('restoreToastActions()', () => {
+    it('should reconnect actions that have a handler', () => {
+      const view = vi.fn();
+      const actions = restoreToastActions(
+        [
+          { id: 'view', label: 'View', variant: 'primary' },
+          { id: 'cancel', label: 'Cancel', variant: 'secondary' },
+        ],
+        { view },
+        TestBed.inject(EnvironmentInjector)
+      );
+
+      expect(actions.map((action) => action.label)).toEqual(['View']);
+      actions[0].onClick();
+      expect(view).toHaveBeenCalled();
+    });
+  });
+
+  describe('isSerializedToastPayload()', () => {
+    it('should accept payloads with a message and actions', () => {
+      expect(isSerializedToastPayload({ message: 'Saved', actions: [] })).toBe(true);
+    });
+
+    it('should reject other values', () => {
+      expect(isSerializedToastPayload(null)).toBe(false);
+      expect(isSerializedToastPayload({ message: 42, actions: [] })).toBe(false);
+      expect(isSerializedToastPayload({ message: 'Saved' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Toast Serialization - Converts toasts to plain data and back.
+ *
+ * Used where toasts leave the running app (storage, other tabs). Functions
+ * and templates can't be serialized: actions keep their ID and get their
+ * click handler back from a registry keyed by that ID.
+ */
+
+import { EnvironmentInjector, runInInjectionContext } from '@angular/core';
+import { AnimationConfig } from '../animations/animation.types';
+import { Toast, ToastAction, ToastPayload } from '../types/toast.type';
+
+/**
+ * Serialized form of an action, without its click handler.
+ */
+export type SerializedToastAction = Omit<ToastAction, 'id' | 'onClick'> & {
+  readonly id: string;
+};
+
+/**
+ * Serialized form of an animation config, without custom callbacks.
+ */
+export type SerializedToastAnimation = Omit<AnimationConfig, 'custom'>;
+
+/**
+ * Serialized form of a toast, without functions and templates.
+ */
+export type SerializedToastPayload = Omit<
+  ToastPayload,
+  'actions' | 'iconTemplate' | 'contentTemplate' | 'animation'
+> & {
+  readonly actions: readonly SerializedToastAction[];
+  readonly animation?: SerializedToastAnimation;
+};
+
+/**
+ * Handlers for restored actions, keyed by `ToastAction.id`.
+ */
+export type ToastActionHandlers = Readonly<Record<string, () => void>>;
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Whether a toast can be serialized. Toasts with a custom template or
+ * component can't be.
+ *
+ * @param toast - The toast to check
+ */
+export function isSerializableToast(toast: Toast): boolean {
+  return !toast.component && !toast.contentTemplate;
+}
+
+/**
+ * Converts a toast to a payload that survives `JSON.stringify` and structured cloning.
+ * Actions without an ID are left out.
+ *
+ * @param toast - The toast to serialize
+ * @returns Payload that shows an equivalent toast
+ */
+export function serializeToast(toast: Toast): SerializedToastPayload {
+  return {
+    message: toast.message,
+    messageFormat: toast.messageFormat,
+    title: toast.title,
+    type: toast.type,
+    theme: toast.theme,
+    durationMs: toast.durationMs,
+    dismissible: toast.dismissible,
+    actions: toast.actions.filter(hasActionId).map(serializeAction),
+    styleClass: toast.styleClass,
+    avatarUrl: toast.avatarUrl,
+    progressPercent: toast.progressPercent,
+    showCountdown: toast.showCountdown,
+    swipeToDismiss: toast.swipeToDismiss,
+    position: toast.position,
+    dedupeKey: toast.dedupeKey,
+    priority: toast.priority,
+    group: toast.group,
+    tags: toast.tags,
+    dismissOnNavigation: toast.dismissOnNavigation,
+    persist: toast.persist,
+    syncAcrossTabs: toast.syncAcrossTabs,
+    nativeFallback: toast.nativeFallback,
+    animation: toast.animation && serializeAnimation(toast.animation),
+  };
+}
+
+/**
+ * Reconnects serialized actions to their handlers.
+ * Actions without a registered handler are left out.
+ *
+ * @param actions - Serialized actions
+ * @param handlers - Handlers keyed by action ID
+ * @param injector - Injector the handlers run in, so they may call `inject()`
+ */
+export function restoreToastActions(
+  actions: readonly SerializedToastAction[],
+  handlers: ToastActionHandlers | undefined,
+  injector: EnvironmentInjector
+): ToastAction[] {
+  return actions.flatMap((action) => {
+    const handler = handlers?.[action.id];
+    if (!handler) {
+      return [];
+    }
+
+    return [{ ...action, onClick: () => runInInjectionContext(injector, handler) }];
+  });
+}
+
+/**
+ * Checks the shape of a serialized payload read from an untrusted source.
+ *
+ * @param payload - Value to check
+ */
+export function isSerializedToastPayload(payload: unknown): payload is SerializedToastPayload {
+  if (typeof payload !== 'object' || payload === null) {
+    return false;
+  }
+
+  const { message, actions } = payload as Partial<SerializedToastPayload>;
+  return typeof message === 'string' && Array.isArray(actions);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hasActionId(action: ToastAction): action is ToastAction & { readonly id: string } {
+  return action.id !== undefined;
+}
+
+function serializeAction({
+  id,
+  label,
+  variant,
+  dismissOnClick,
+}: ToastAction & { readonly id: string }): SerializedToastAction {
+  return { id, label, variant, dismissOnClick };
+}
+
+function serializeAnimation({
+  preset,
+  durationMs,
+  easing,
+}: AnimationConfig): SerializedToastAnimation {
+  return { preset, durationMs, easing };
+}
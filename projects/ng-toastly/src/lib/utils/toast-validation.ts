@@ -0,0 +1,58 @@
+/**
+ * Toast Validation - Checks toast payloads before they are used.
+ *
+ * Shared by ToastService and by features that accept a payload to show
+ * later, so that invalid payloads fail where they are passed in.
+ */
+
+import { PROGRESS_MAXIMUM_PERCENT, PROGRESS_MINIMUM_PERCENT } from '../constants/toast.constants';
+import { createToastError, TOAST_ERROR_MESSAGES } from '../types/toast-error.type';
+import { ToastUpdate } from '../types/toast.type';
+
+/**
+ * Checks the durations and progress value of a payload or update.
+ *
+ * @param payload - Payload or changes to check
+ * @throws ToastError with code 'INVALID_DURATION' or 'INVALID_PROGRESS_VALUE'
+ */
+export function validateToastPayload(payload: ToastUpdate): void {
+  if (payload.durationMs !== undefined && payload.durationMs < 0) {
+    throw createToastError(
+      'INVALID_DURATION',
+      TOAST_ERROR_MESSAGES.INVALID_DURATION,
+      `Received: ${payload.durationMs}ms`
+    );
+  }
+
+  const animationDurationMs = payload.animation?.durationMs;
+  if (animationDurationMs !== undefined && animationDurationMs < 0) {
+    throw createToastError(
+      'INVALID_DURATION',
+      TOAST_ERROR_MESSAGES.INVALID_DURATION,
+      `Received: ${animationDurationMs}ms for the animation`
+    );
+  }
+
+  if (payload.progressPercent !== undefined) {
+    validateProgressValue(payload.progressPercent);
+  }
+}
+
+/**
+ * Checks that a progress value is within 0-100.
+ *
+ * @param progressPercent - Progress value to check
+ * @throws ToastError with code 'INVALID_PROGRESS_VALUE'
+ */
+export function validateProgressValue(progressPercent: number): void {
+  const isValidProgress =
+    progressPercent >= PROGRESS_MINIMUM_PERCENT && progressPercent <= PROGRESS_MAXIMUM_PERCENT;
+
+  if (!isValidProgress) {
+    throw createToastError(
+      'INVALID_PROGRESS_VALUE',
+      TOAST_ERROR_MESSAGES.INVALID_PROGRESS_VALUE,
+      `Received: ${progressPercent}%`
+    );
+  }
+}
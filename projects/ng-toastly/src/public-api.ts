@@ -19,18 +19,95 @@ export type {
   ToastPosition,
   ToastAction,
   ToastActionVariant,
+  ToastDismissReason,
+  ToastPriority,
+  ToastMessageFormat,
+  ToastUpdate,
+  ToastTimerState,
+  ToastEvent,
 } from './lib/types/toast.type';
 
+export type {
+  ToastContentContext,
+  ToastComponentContext,
+  ToastComponentOptions,
+} from './lib/types/toast-content.type';
+
+export { TOAST_COMPONENT_CONTEXT } from './lib/types/toast-content.type';
+
+export type {
+  ToastPromiseMessage,
+  ToastPromiseMessages,
+  ToastPromiseOptions,
+} from './lib/types/toast-promise.type';
+
 export type {
   ToastGlobalConfig,
   ToastGlobalConfigPartial,
+  ToastOverflowStrategy,
+  ToastDedupeStrategy,
   ToastStyleConfig,
 } from './lib/types/toast-config.type';
 
 export { TOAST_GLOBAL_CONFIG } from './lib/types/toast-config.type';
 
+export type {
+  ToastNativeFallbackConfig,
+  ToastNotificationPermission,
+  ToastNativeNotification,
+  ToastNativeNotificationHandle,
+  ToastNativeNotificationAdapter,
+} from './lib/types/toast-native.type';
+
+export { TOAST_NATIVE_NOTIFICATION_ADAPTER } from './lib/types/toast-native.type';
+
 export { provideToastly } from './lib/provide-toast';
 
+export type { ToastlyFeature, ToastlyFeatureKind } from './lib/types/toast-feature.type';
+
+export type {
+  ToastHttpErrorOptions,
+  ToastHttpErrorText,
+  ToastHttpErrorToast,
+} from './lib/types/toast-http.type';
+
+export { TOAST_HTTP_ERROR_OPTIONS } from './lib/types/toast-http.type';
+
+export {
+  toastlyHttpErrorInterceptor,
+  withHttpErrorToasts,
+  SKIP_ERROR_TOAST,
+  IGNORED_ERROR_TOAST_STATUSES,
+} from './lib/features/http-error-interceptor';
+
+export type { ToastErrorHandlerOptions } from './lib/types/toast-error-handler.type';
+
+export { TOAST_ERROR_HANDLER_OPTIONS } from './lib/types/toast-error-handler.type';
+
+export { withErrorHandler } from './lib/features/with-error-handler';
+
+export type { ToastHistoryEntry, ToastHistoryOptions } from './lib/types/toast-history.type';
+
+export { TOAST_HISTORY_OPTIONS } from './lib/types/toast-history.type';
+
+export { withHistory } from './lib/features/with-history';
+
+export type {
+  ToastPersistenceOptions,
+  ToastPersistenceStorage,
+  ToastStorageAdapter,
+} from './lib/types/toast-persistence.type';
+
+export { TOAST_PERSISTENCE_OPTIONS } from './lib/types/toast-persistence.type';
+
+export { withPersistence } from './lib/features/with-persistence';
+
+export type { ToastCrossTabSyncOptions } from './lib/types/toast-cross-tab.type';
+
+export { TOAST_CROSS_TAB_SYNC_OPTIONS } from './lib/types/toast-cross-tab.type';
+
+export { withCrossTabSync } from './lib/features/with-cross-tab-sync';
+
 export type {
   ToastError,
   ToastErrorCode,
@@ -38,6 +115,7 @@ export type {
 
 export {
   createToastError,
+  isToastError,
   TOAST_ERROR_MESSAGES,
 } from './lib/types/toast-error.type';
 
@@ -50,8 +128,19 @@ export type {
   AnimationDirection,
   CustomAnimation,
   AnimationConfig,
+  AnimationRunner,
+  AnimationPresetDefinition,
+  AnimationPresetDefinitions,
+  ToastlyAnimationPresets,
 } from './lib/animations/animation.types';
 
+export { TOAST_ANIMATION_PRESETS } from './lib/animations/animation.types';
+
+export {
+  provideToastlyAnimations,
+  withAnimationPreset,
+} from './lib/features/with-animation-preset';
+
 export {
   ANIMATION_DEFAULT_DURATION_MS,
   ANIMATION_DEFAULT_EASING,
@@ -77,6 +166,24 @@ export {
   PROGRESS_MINIMUM_PERCENT,
   PROGRESS_MAXIMUM_PERCENT,
   TOAST_ID_PREFIX,
+  DEFAULT_TOAST_PRIORITY,
+  TOAST_PRIORITY_RANK,
+  TOAST_ROUTE_DATA_KEY,
+  HTTP_ERROR_TOAST_DEFAULT_TITLE,
+  HTTP_ERROR_TOAST_DEFAULT_MESSAGE,
+  HTTP_ERROR_TOAST_NETWORK_TITLE,
+  HTTP_ERROR_TOAST_NETWORK_MESSAGE,
+  ERROR_HANDLER_TOAST_DEFAULT_TITLE,
+  ERROR_HANDLER_TOAST_DEFAULT_MESSAGE,
+  ERROR_HANDLER_RATE_LIMIT_MS,
+  ERROR_HANDLER_COPY_DETAILS_LABEL,
+  TOAST_HISTORY_MAX_ENTRIES,
+  TOAST_PERSISTENCE_STORAGE_KEY,
+  TOAST_CROSS_TAB_CHANNEL_NAME,
+  TOAST_SWIPE_START_THRESHOLD_PX,
+  TOAST_SWIPE_DISTANCE_THRESHOLD_PX,
+  TOAST_SWIPE_VELOCITY_THRESHOLD,
+  TOAST_SWIPE_RUBBER_BAND_FACTOR,
   DEFAULT_TOAST_CONFIG,
 } from './lib/constants/toast.constants';
 
@@ -85,6 +192,11 @@ export {
 // =============================================================================
 
 export { ToastService } from './lib/services/toast.service';
+export { ToastRef } from './lib/services/toast-ref';
+export { ToastErrorHandler } from './lib/services/toast-error-handler';
+export { ToastHistoryService } from './lib/services/toast-history.service';
+export { ToastPersistenceService } from './lib/services/toast-persistence.service';
+export { ToastCrossTabSyncService } from './lib/services/toast-cross-tab-sync.service';
 
 // =============================================================================
 // COMPONENTS
@@ -92,4 +204,10 @@ export { ToastService } from './lib/services/toast.service';
 
 export { ToastContainerComponent } from './lib/components/toast-container/toast-container.component';
 export { ToastItemComponent } from './lib/components/toast-item/toast-item.component';
+export { ToastNotificationCenterComponent } from './lib/components/toast-notification-center/toast-notification-center.component';
+
+// =============================================================================
+// PRIVATE - Used by secondary entry points, not part of the public API
+// =============================================================================
 
+export { validateToastPayload as ɵvalidateToastPayload } from './lib/utils/toast-validation';